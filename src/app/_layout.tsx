@@ -10,6 +10,7 @@ import { useEffect } from "react";
 import { getCurrentVersion } from "./changelog/changelog";
 import { BASE_PATH, GITHUB_LINK } from "./metadata";
 import { PREFERENCES_PANE_ID } from "./preferences";
+import { TOOLS_PANE_ID } from "./tools";
 
 const NOT_FOUND_SEGMENT = "/_not-found";
 
@@ -81,16 +82,27 @@ export function Breadcrumbs() {
           ></i>
         </Link>
         {segments.length === 1 && (
-          // Only show preferences button on actual formatter page.
-          <button
-            type="button"
-            className="btn p-0 ms-2 me-1"
-            data-bs-toggle="offcanvas"
-            data-bs-target={`#${PREFERENCES_PANE_ID}`}
-            aria-controls={PREFERENCES_PANE_ID}
-          >
-            <i className="bi bi-gear" style={{ fontSize: "1.2em" }}></i>
-          </button>
+          // Only show tools and preferences buttons on actual formatter page.
+          <>
+            <button
+              type="button"
+              className="btn p-0 ms-2"
+              data-bs-toggle="offcanvas"
+              data-bs-target={`#${TOOLS_PANE_ID}`}
+              aria-controls={TOOLS_PANE_ID}
+            >
+              <i className="bi bi-tools" style={{ fontSize: "1.2em" }}></i>
+            </button>
+            <button
+              type="button"
+              className="btn p-0 ms-2 me-1"
+              data-bs-toggle="offcanvas"
+              data-bs-target={`#${PREFERENCES_PANE_ID}`}
+              aria-controls={PREFERENCES_PANE_ID}
+            >
+              <i className="bi bi-gear" style={{ fontSize: "1.2em" }}></i>
+            </button>
+          </>
         )}
       </div>
     </div>
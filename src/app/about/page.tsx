@@ -36,7 +36,54 @@ export default function Page() {
               </li>
             </ul>
           </li>
-          <li>Configurable tab size and line width limit</li>
+          <li>
+            Compacting the formula onto one line with the optional spaces
+            removed, triggered by one of the following keyboard shortcuts:
+            <ul>
+              <li>
+                <code>ctrl/cmd + shift + S</code>
+              </li>
+              <li>
+                <code>alt/opt + shift + C</code>
+              </li>
+              <li>
+                <code>ctrl/cmd + alt/opt + shift + L</code>
+              </li>
+            </ul>
+          </li>
+          <li>
+            Keeping pairs of arguments on the same line when formatting, such as
+            the conditions and values in <code>IFS</code>
+          </li>
+          <li>
+            Optional formatting styles that collapse closing brackets or only
+            wrap the last argument of a call
+          </li>
+          <li>
+            Formatting array literals as tables, with the columns lined up
+          </li>
+          <li>
+            Wrapping long expressions at the loosest operators first, with the
+            operators at the start or end of lines
+          </li>
+          <li>
+            Renaming <code>LET</code> variables and <code>LAMBDA</code>{" "}
+            parameters with <code>F2</code>
+          </li>
+          <li>
+            A list of the cells, ranges, and named ranges that the formula
+            references, grouped by sheet
+          </li>
+          <li>
+            Shifting references as if the formula was copied, or rows or columns
+            were inserted or deleted
+          </li>
+          <li>Renaming sheets in references, quoting them only when needed</li>
+          <li>
+            Evaluating formulas against a small grid of cells, which can be
+            filled by pasting CSV
+          </li>
+          <li>Configurable tab size, line width limit, locale, and dialect</li>
         </ul>
       </div>
 
@@ -103,9 +150,8 @@ export default function Page() {
           There could be more plans for this project, most notably linting
           features. Some ideas I had were highlighting bracket pairs, a bit of
           &quot;known formula&quot; hints (e.g., wrong number of arguments,
-          capitalize known formula names, etc.), and smarter formatting (e.g.,
-          grouping pairs of arguments on the same line, collapsing closing
-          parentheses, etc.). If you have any ideas, feel free to{" "}
+          capitalize known formula names, etc.), and smarter formatting. If you
+          have any ideas, feel free to{" "}
           <a href={GITHUB_LINK + "/issues"} target="_blank">
             open an issue on the Github repo
           </a>
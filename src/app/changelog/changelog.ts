@@ -270,6 +270,248 @@ export const CHANGELOG: Version[] = [
     timestamp: "2025-04-10 00:16",
     description: [{ text: "Added about page" }],
   },
+  {
+    version: [0, 25],
+    timestamp: "2026-10-18 09:12",
+    description: [{ text: "Updated parser to respect operator precedence" }],
+  },
+  {
+    version: [0, 26],
+    timestamp: "2026-10-18 09:47",
+    description: [{ text: "Added support for the postfix percent operator" }],
+  },
+  {
+    version: [0, 27],
+    timestamp: "2026-10-18 10:21",
+    description: [
+      {
+        text: "Added support for all error literals, such as #REF! and #DIV/0!",
+      },
+      { text: "Added separate styling for error literals" },
+    ],
+  },
+  {
+    version: [0, 28],
+    timestamp: "2026-10-18 10:58",
+    description: [
+      { text: "Fixed scientific notation numbers with signed exponents" },
+    ],
+  },
+  {
+    version: [0, 29],
+    timestamp: "2026-10-18 11:40",
+    description: [
+      {
+        text: "Added the range operator between references and function calls",
+        children: [
+          { text: "For example, `INDEX(A:A, 1):INDEX(A:A, 5)` is now valid." },
+        ],
+      },
+    ],
+  },
+  {
+    version: [0, 30],
+    timestamp: "2026-10-18 13:05",
+    description: [
+      { text: "Added support for tabs and other whitespace characters" },
+      { text: "Added support for strings that span multiple lines" },
+    ],
+  },
+  {
+    version: [0, 31],
+    timestamp: "2026-10-18 14:32",
+    description: [
+      {
+        text: "Added locale preference for semicolon separators and comma decimals",
+      },
+      { text: "Added button to convert a formula between locales" },
+    ],
+  },
+  {
+    version: [0, 32],
+    timestamp: "2026-10-18 16:10",
+    description: [
+      { text: "Added support for R1C1 references" },
+      {
+        text: "Added tools pane with conversion between A1 and R1C1 references",
+      },
+    ],
+  },
+  {
+    version: [0, 33],
+    timestamp: "2026-10-18 17:25",
+    description: [
+      {
+        text: "Added Excel dialect preference",
+        children: [
+          {
+            text: "Structured references, the implicit intersection operator, spilled ranges, and `_xlfn.` functions are accepted in Excel and reported as errors in Google Sheets.",
+          },
+        ],
+      },
+      {
+        text: "Added support for function names with periods, such as `NORM.DIST`",
+      },
+    ],
+  },
+  {
+    version: [0, 34],
+    timestamp: "2026-10-18 18:40",
+    description: [
+      {
+        text: "Added whitespace trivia to tokens so that parsed formulas can be printed exactly as written",
+      },
+      {
+        text: "Updated leading and trailing space highlights to use token trivia",
+      },
+    ],
+  },
+  {
+    version: [0, 35],
+    timestamp: "2026-10-18 19:55",
+    description: [
+      {
+        text: "Added parser error recovery",
+        children: [
+          {
+            text: "The parser now skips to the next separator or closing bracket after an unexpected token, so every error is reported and the rest of the formula can still be formatted.",
+          },
+        ],
+      },
+    ],
+  },
+  {
+    version: [0, 36],
+    timestamp: "2026-10-18 20:20",
+    description: [
+      { text: "Added a catalog of built-in functions and their signatures" },
+    ],
+  },
+  {
+    version: [0, 37],
+    timestamp: "2026-10-18 20:50",
+    description: [
+      {
+        text: "Added warnings for unknown functions and wrong argument counts",
+      },
+    ],
+  },
+  {
+    version: [0, 38],
+    timestamp: "2026-10-18 21:25",
+    description: [
+      { text: "Added warnings for LET and LAMBDA names" },
+      { text: "Colored LET variables and LAMBDA parameters" },
+    ],
+  },
+  {
+    version: [0, 39],
+    timestamp: "2026-10-18 21:55",
+    description: [
+      { text: "Added renaming LET variables and LAMBDA parameters with F2" },
+    ],
+  },
+  {
+    version: [0, 40],
+    timestamp: "2026-10-18 22:30",
+    description: [
+      { text: "Added formula evaluation against an editable grid" },
+    ],
+  },
+  {
+    version: [0, 41],
+    timestamp: "2026-10-18 23:00",
+    description: [
+      {
+        text: "Added a list of the references in the formula, grouped by sheet",
+      },
+    ],
+  },
+  {
+    version: [0, 42],
+    timestamp: "2026-10-18 23:30",
+    description: [
+      {
+        text: "Added a tool to shift references for copied formulas and inserted or deleted rows and columns",
+      },
+    ],
+  },
+  {
+    version: [0, 43],
+    timestamp: "2026-10-18 23:50",
+    description: [
+      {
+        text: "Added a tool to rename sheets in references, with an option to include INDIRECT strings",
+      },
+    ],
+  },
+  {
+    version: [0, 44],
+    timestamp: "2026-10-19 00:20",
+    description: [
+      {
+        text: "Formatting keeps pairs of arguments on the same line, such as the conditions and values in IFS, with an option to align them",
+      },
+    ],
+  },
+  {
+    version: [0, 45],
+    timestamp: "2026-10-19 00:50",
+    description: [
+      {
+        text: "Added formatting preferences to collapse closing brackets and to hug the last argument of a call",
+      },
+    ],
+  },
+  {
+    version: [0, 46],
+    timestamp: "2026-10-19 01:20",
+    description: [
+      {
+        text: "Wrapped array literals are formatted as tables, with the columns lined up",
+      },
+    ],
+  },
+  {
+    version: [0, 47],
+    timestamp: "2026-10-19 01:50",
+    description: [
+      {
+        text: "Long expressions are wrapped at the loosest operators first, such as + before *",
+      },
+      {
+        text: "Added a preference for putting operators at the start or end of wrapped lines",
+      },
+    ],
+  },
+  {
+    version: [0, 48],
+    timestamp: "2026-10-19 02:20",
+    description: [
+      {
+        text: "Lines are wrapped when the text after a group, such as closing brackets, would go past the line width",
+      },
+      { text: "Long array literals fill each line with as many items as fit" },
+    ],
+  },
+  {
+    version: [0, 49],
+    timestamp: "2026-10-19 02:50",
+    description: [
+      {
+        text: "Added keyboard shortcuts for compacting the formula onto one line",
+      },
+    ],
+  },
+  {
+    version: [0, 50],
+    timestamp: "2026-10-19 03:20",
+    description: [
+      {
+        text: "The evaluator supports TEXT with number formats, such as #,##0.00 and 0%",
+      },
+    ],
+  },
 ].sort((v1, v2) => -cmpVersions(v1.version, v2.version));
 
 /** Returns the current version number as a string. */
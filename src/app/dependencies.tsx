@@ -0,0 +1,115 @@
+import {
+  Dependency,
+  DependencyKind,
+  groupDependenciesBySheet,
+} from "../parser/dependencies";
+import { makeClassName } from "../utils/className";
+
+/** Returns a key that identifies a dependency across parses. */
+export function getDependencyKey(dependency: Dependency): string {
+  return [dependency.kind, dependency.sheetName ?? "", dependency.name].join(
+    "!"
+  );
+}
+
+/**
+ * Lists the dependencies of the formula, grouped by sheet. Clicking one
+ * selects its occurrences in the editor.
+ */
+export function DependenciesPanel({
+  dependencies,
+  selectedKey,
+  onSelect,
+}: {
+  dependencies: Dependency[];
+  /** The key of the dependency whose occurrences are selected, if any. */
+  selectedKey: string | null;
+  onSelect: (dependency: Dependency) => void;
+}) {
+  if (dependencies.length === 0) return null;
+
+  // Names that aren't qualified by a sheet are listed separately from the
+  // references to the formula's own sheet.
+  const sheetGroups: Array<[string, Dependency[]]> = [];
+  const unqualified: Dependency[] = [];
+  for (const [sheetName, group] of groupDependenciesBySheet(dependencies)) {
+    if (sheetName !== null) {
+      sheetGroups.push([sheetName, group]);
+    } else {
+      unqualified.push(...group);
+    }
+  }
+  const ofKind = (...kinds: DependencyKind[]) =>
+    unqualified.filter((dependency) => kinds.includes(dependency.kind));
+  const groups: Array<[string, Dependency[]]> = [
+    [
+      "Current sheet",
+      ofKind(
+        DependencyKind.CELL,
+        DependencyKind.RANGE,
+        DependencyKind.WHOLE_COLUMNS,
+        DependencyKind.WHOLE_ROWS
+      ),
+    ],
+    ["Named ranges", ofKind(DependencyKind.NAMED_RANGE)],
+    ["Tables", ofKind(DependencyKind.STRUCTURED_REFERENCE)],
+    ...sheetGroups,
+  ];
+
+  return (
+    <div id="dependencies-container" className="mb-2">
+      <div className="fw-bold mb-1">References</div>
+      <div className="d-flex flex-wrap column-gap-4">
+        {groups
+          .filter(([, group]) => group.length > 0)
+          .map(([title, group], index) => (
+            <div key={`dependency-group-${index}`}>
+              <div className="text-secondary">{title}</div>
+              <ul className="list-unstyled mb-1">
+                {group.map((dependency) => {
+                  const key = getDependencyKey(dependency);
+                  const count = dependency.tokens.length;
+                  return (
+                    <li key={key}>
+                      <button
+                        type="button"
+                        className={makeClassName({
+                          "btn btn-link btn-sm p-0 font-monospace": true,
+                          "fw-bold": key === selectedKey,
+                        })}
+                        title="Select the occurrences in the formula"
+                        onClick={() => onSelect(dependency)}
+                      >
+                        {dependency.name}
+                      </button>{" "}
+                      <span className="text-secondary small">
+                        {dependencyKindDisplayName(dependency.kind)}
+                        {count > 1 && ` ×${count}`}
+                      </span>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          ))}
+      </div>
+    </div>
+  );
+}
+
+function dependencyKindDisplayName(kind: DependencyKind): string {
+  switch (kind) {
+    case DependencyKind.CELL:
+      return "cell";
+    case DependencyKind.RANGE:
+      return "range";
+    case DependencyKind.WHOLE_COLUMNS:
+      return "columns";
+    case DependencyKind.WHOLE_ROWS:
+      return "rows";
+    case DependencyKind.NAMED_RANGE:
+      return "named range";
+    case DependencyKind.STRUCTURED_REFERENCE:
+      return "table";
+  }
+}
@@ -0,0 +1,260 @@
+import { useState } from "react";
+
+import { evaluateFormula, EvaluationResult } from "../evaluator/evaluate";
+import { createGrid, parseCsv } from "../evaluator/grid";
+import {
+  CellValue,
+  createError,
+  ErrorCode,
+  formatCellValue,
+  isError,
+} from "../evaluator/values";
+import { Locale } from "../parser/locale";
+import { ParseResult } from "../parser/parse";
+import {
+  cellAddressToString,
+  columnToLetters,
+  parseCellAddress,
+} from "../parser/reference";
+import { makeClassName } from "../utils/className";
+
+const DEFAULT_NUM_ROWS = 5;
+const DEFAULT_NUM_COLS = 4;
+
+/**
+ * Evaluates the formula against a small grid of cells that the user can edit
+ * or fill by pasting CSV.
+ */
+export function EvaluationPanel({
+  parseResult,
+  locale,
+}: {
+  parseResult: ParseResult;
+  locale: Locale;
+}) {
+  const [cells, setCells] = useState(() =>
+    createEmptyCells(DEFAULT_NUM_ROWS, DEFAULT_NUM_COLS)
+  );
+  const [csvText, setCsvText] = useState("");
+  const [anchorText, setAnchorText] = useState(
+    cellAddressToString({ row: 0, col: DEFAULT_NUM_COLS })
+  );
+  const anchor = parseCellAddress(anchorText);
+
+  function handleCellChange(row: number, col: number, text: string) {
+    setCells(
+      cells.map((values, r) =>
+        r === row
+          ? values.map((value, c) => (c === col ? text : value))
+          : values
+      )
+    );
+  }
+
+  function handleAddRow() {
+    setCells([...cells, Array(cells[0].length).fill("")]);
+  }
+
+  function handleAddColumn() {
+    setCells(cells.map((values) => [...values, ""]));
+  }
+
+  function handleImportCsv() {
+    const rows = parseCsv(csvText);
+    if (rows.length === 0) return;
+    // Pad the rows so the grid is rectangular.
+    const numCols = Math.max(...rows.map((values) => values.length));
+    setCells(
+      rows.map((values) => [
+        ...values,
+        ...Array(numCols - values.length).fill(""),
+      ])
+    );
+  }
+
+  let result: EvaluationResult | undefined;
+  if (!parseResult.hasError && anchor !== null) {
+    try {
+      result = evaluateFormula(parseResult, {
+        grid: createGrid(cells),
+        anchor,
+        locale,
+      });
+    } catch (error) {
+      // Show a bug in the evaluator as an error rather than breaking the page.
+      result = createError(
+        ErrorCode.ERROR,
+        `The evaluator failed: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+
+  const anchorInputId = "formula-cell-input";
+  const csvInputId = "csv-input";
+  return (
+    <div id="evaluation-container" className="mb-2">
+      <div className="fw-bold mb-1">Evaluation</div>
+      <div className="d-flex flex-wrap gap-3 align-items-start">
+        <div>
+          <table className="table table-bordered table-sm mb-1 grid-table">
+            <thead>
+              <tr>
+                <th></th>
+                {cells[0].map((_, col) => (
+                  <th key={`col-${col}`} className="text-center">
+                    {columnToLetters(col)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {cells.map((values, row) => (
+                <tr key={`row-${row}`}>
+                  <th className="text-end">{row + 1}</th>
+                  {values.map((value, col) => (
+                    <td key={`cell-${row}-${col}`} className="p-0">
+                      <input
+                        type="text"
+                        className="form-control form-control-sm border-0"
+                        value={value}
+                        aria-label={cellAddressToString({ row, col })}
+                        onChange={(event) =>
+                          handleCellChange(row, col, event.currentTarget.value)
+                        }
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="d-flex gap-2">
+            <button
+              type="button"
+              className="btn btn-sm btn-outline-secondary"
+              onClick={handleAddRow}
+            >
+              Add row
+            </button>
+            <button
+              type="button"
+              className="btn btn-sm btn-outline-secondary"
+              onClick={handleAddColumn}
+            >
+              Add column
+            </button>
+            <button
+              type="button"
+              className="btn btn-sm btn-outline-secondary"
+              onClick={() =>
+                setCells(createEmptyCells(DEFAULT_NUM_ROWS, DEFAULT_NUM_COLS))
+              }
+            >
+              Clear
+            </button>
+          </div>
+        </div>
+        <div>
+          <label htmlFor={csvInputId} className="form-label">
+            Paste CSV
+          </label>
+          <textarea
+            id={csvInputId}
+            className="form-control form-control-sm font-monospace"
+            rows={4}
+            value={csvText}
+            onChange={(event) => setCsvText(event.currentTarget.value)}
+          ></textarea>
+          <button
+            type="button"
+            className="btn btn-sm btn-outline-secondary mt-1"
+            disabled={csvText.trim() === ""}
+            onClick={handleImportCsv}
+          >
+            Import
+          </button>
+        </div>
+        <div>
+          <div className="input-group input-group-sm mb-2">
+            <label htmlFor={anchorInputId} className="input-group-text">
+              Formula cell
+            </label>
+            <input
+              id={anchorInputId}
+              type="text"
+              className={makeClassName({
+                "form-control": true,
+                "is-invalid": anchor === null,
+              })}
+              value={anchorText}
+              onChange={(event) => setAnchorText(event.currentTarget.value)}
+            />
+          </div>
+          <EvaluationResultView
+            result={result}
+            hasError={parseResult.hasError}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/** Displays the result of an evaluation, as a value or a spilled array. */
+function EvaluationResultView({
+  result,
+  hasError,
+}: {
+  result: EvaluationResult | undefined;
+  hasError: boolean;
+}) {
+  if (hasError) {
+    return (
+      <div className="text-secondary">Fix the errors to see the result.</div>
+    );
+  }
+  if (result === undefined) {
+    return <div className="text-secondary">Enter a valid formula cell.</div>;
+  }
+  if (!Array.isArray(result)) {
+    return (
+      <div className="evaluation-result">
+        <ResultCell value={result} />
+        {isError(result) && (
+          <div className="text-secondary small">{result.message}</div>
+        )}
+      </div>
+    );
+  }
+  return (
+    <table className="table table-bordered table-sm evaluation-result">
+      <tbody>
+        {result.map((values, row) => (
+          <tr key={`result-row-${row}`}>
+            {values.map((value, col) => (
+              <td key={`result-cell-${row}-${col}`}>
+                <ResultCell value={value} />
+              </td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+/** Displays a single value. Errors show their message on hover. */
+function ResultCell({ value }: { value: CellValue }) {
+  if (isError(value)) {
+    return (
+      <span className="text-danger" title={value.message}>
+        {value.code}
+      </span>
+    );
+  }
+  return <span>{formatCellValue(value)}</span>;
+}
+
+function createEmptyCells(numRows: number, numCols: number): string[][] {
+  return Array.from({ length: numRows }, () => Array(numCols).fill(""));
+}
@@ -9,16 +9,30 @@ import {
   useState,
 } from "react";
 
+import { DependenciesPanel, getDependencyKey } from "./dependencies";
+import { EvaluationPanel } from "./evaluation";
 import {
   DEFAULT_USER_PREFERENCES,
   PreferencesPane,
   UserPreferences,
 } from "./preferences";
-import { formatLines } from "../parser/format";
+import { ToolsPane } from "./tools";
+import { convertLocale } from "../parser/convert";
+import { Dependency, getDependencies } from "../parser/dependencies";
+import { getDiagnostics } from "../parser/diagnostics";
+import { compactLines, formatLines } from "../parser/format";
+import { Locale } from "../parser/locale";
 import { parseLines } from "../parser/parse";
+import {
+  findBindingAt,
+  renameBinding,
+  validateRename,
+} from "../parser/rename";
+import { analyzeScopes } from "../parser/scope";
 import { Token, tokenErrorMessage, TokenType } from "../parser/tokens";
 import { makeClassName } from "../utils/className";
 import {
+  cmpPositions,
   convertIndexToPosition,
   convertPositionToIndex,
   Position,
@@ -27,14 +41,18 @@ import {
 import "./style.css";
 
 const FORMAT_KEYBINDS = new Set(["M-KeyS", "A-S-KeyF", "M-A-KeyL"]);
+const COMPACT_KEYBINDS = new Set(["M-S-KeyS", "A-S-KeyC", "M-A-S-KeyL"]);
+const RENAME_KEYBINDS = new Set(["F2"]);
 
 export default function Page() {
   const [userPreferences, setUserPreferencesRaw] = useState<UserPreferences>({
     ...DEFAULT_USER_PREFERENCES,
   });
 
-  function setUserPreferences({ tabSpaces, lineWidth }: UserPreferences) {
+  function setUserPreferences(userPreferences: UserPreferences) {
+    const { tabSpaces, lineWidth } = userPreferences;
     setUserPreferencesRaw({
+      ...userPreferences,
       tabSpaces: Math.min(Math.max(1, tabSpaces), 8),
       lineWidth: Math.max(10, lineWidth),
     });
@@ -47,6 +65,9 @@ export default function Page() {
     end: { lineNum: 0, colNum: 1 },
   });
   const escRef = useRef(false);
+  const [selectedDependencyKey, setSelectedDependencyKey] = useState<
+    string | null
+  >(null);
 
   const lines = text.split("\n");
 
@@ -69,6 +90,7 @@ export default function Page() {
       lines[0] = firstLine.slice(index);
     }
     setText(lines.join("\n"));
+    setSelectedDependencyKey(null);
   }
 
   function handleTextareaSizing() {
@@ -181,6 +203,70 @@ export default function Page() {
       }
       return;
       }
+    if (COMPACT_KEYBINDS.has(key)) {
+      event.preventDefault();
+      if (parseResult.canFormatExpression) {
+        setLines(compactLines(parseResult, userPreferences.locale));
+      }
+      return;
+    }
+    if (RENAME_KEYBINDS.has(key)) {
+      event.preventDefault();
+      handleRename();
+      return;
+    }
+  }
+
+  function handleRename() {
+    const binding = findBindingAt(scopes, selectionRef.current.start);
+    if (binding === null) return;
+    const newName = window.prompt(`Rename ${binding.name} to:`, binding.name);
+    if (newName === null || newName === binding.name) return;
+    const error = validateRename(
+      scopes,
+      binding,
+      newName,
+      userPreferences.locale
+    );
+    if (error !== null) {
+      window.alert(`Can't rename ${binding.name}: ${error}.`);
+      return;
+    }
+    const result = renameBinding(lines, binding, newName);
+    // Keep the selection on the same text.
+    selectionRef.current.start = result.mapPosition(selectionRef.current.start);
+    selectionRef.current.end = result.mapPosition(selectionRef.current.end);
+    setLines(result.lines);
+  }
+
+  function handleSelectDependency(dependency: Dependency) {
+    const key = getDependencyKey(dependency);
+    // Select the first occurrence after the cursor, wrapping around. Clicking
+    // the same dependency again moves on to its next occurrence.
+    const { start } = selectionRef.current;
+    const minCmp = key === selectedDependencyKey ? 1 : 0;
+    const token =
+      dependency.tokens.find(
+        (token) => cmpPositions(token.startPosition, start) >= minCmp
+      ) ?? dependency.tokens[0];
+    selectionRef.current.start = token.startPosition;
+    selectionRef.current.end = {
+      lineNum: token.endPosition.lineNum,
+      colNum: token.endPosition.colNum + 1,
+    };
+    setSelectedDependencyKey(key);
+    if (textareaRef.current) {
+      textareaRef.current.focus();
+      textareaRef.current.setSelectionRange(
+        convertPositionToIndex(lines, selectionRef.current.start),
+        convertPositionToIndex(lines, selectionRef.current.end)
+      );
+    }
+  }
+
+  function handleConvertLocale(locale: Locale) {
+    setLines(convertLocale(lines, userPreferences.locale, locale));
+    setUserPreferences({ ...userPreferences, locale });
   }
 
   function handleSelect(
@@ -198,15 +284,43 @@ export default function Page() {
     );
   }
 
-  const parseResult = parseLines(lines);
-  // Group the tokens by line.
+  const parseResult = parseLines(
+    lines,
+    userPreferences.locale,
+    userPreferences.dialect
+  );
+  const scopes = analyzeScopes(parseResult);
+  // Diagnostics are only warnings, so they don't prevent formatting.
+  const diagnostics = getDiagnostics(parseResult, scopes);
+  const diagnosticTokens = new Set(
+    diagnostics.map((diagnostic) => diagnostic.token)
+  );
+  // The declarations and references of LET and LAMBDA bindings.
+  const variableTokens = new Set([
+    ...scopes.bindings.map((binding) => binding.token),
+    ...scopes.references.keys(),
+  ]);
+  const dependencies = getDependencies(parseResult, scopes);
+  // Every occurrence of the dependency selected in the references panel.
+  const highlightedTokens = new Set(
+    dependencies.find(
+      (dependency) => getDependencyKey(dependency) === selectedDependencyKey
+    )?.tokens
+  );
+  // Group the tokens by line. Tokens that span multiple lines are included in
+  // every line they cover.
   const tokensByLine = new Map<number, Token[]>();
   for (const token of parseResult.tokens) {
-    const lineNum = token.startPosition.lineNum;
-    if (!tokensByLine.has(lineNum)) {
-      tokensByLine.set(lineNum, []);
+    for (
+      let lineNum = token.startPosition.lineNum;
+      lineNum <= token.endPosition.lineNum;
+      lineNum++
+    ) {
+      if (!tokensByLine.has(lineNum)) {
+        tokensByLine.set(lineNum, []);
+      }
+      tokensByLine.get(lineNum)!.push(token);
     }
-    tokensByLine.get(lineNum)!.push(token);
   }
 
   return (
@@ -214,7 +328,13 @@ export default function Page() {
       <PreferencesPane
         userPreferences={userPreferences}
         setUserPreferences={setUserPreferences}
+        convertLocale={handleConvertLocale}
       ></PreferencesPane>
+      <ToolsPane
+        lines={lines}
+        setLines={setLines}
+        userPreferences={userPreferences}
+      ></ToolsPane>
 
     <div
       id="editor-container"
@@ -240,26 +360,32 @@ export default function Page() {
           {index + 1}
         </div>
       ))}
-      {parseResult.hasError && (
+      {(parseResult.hasError || diagnostics.length > 0) && (
         <div id="errors-container">
-          <div className="fw-bold">Errors</div>
-          <ul>
-            {parseResult.errors.map((error) => {
-              const loc = error.startPosition;
-              const lineNum = loc.lineNum + 1;
-              let colNum = loc.colNum + 1;
-              if (lineNum === 1) {
-                // Offset to account for the inserted equals sign.
-                colNum++;
-              }
-              return (
-                <li key={`error-${loc.lineNum}-${loc.colNum}`}>
-                    Ln{lineNum}, Col{colNum}:{" "}
-                    {tokenErrorMessage(error.errorType)}
-                </li>
-              );
-            })}
-          </ul>
+          {parseResult.hasError && (
+            <>
+              <div className="fw-bold">Errors</div>
+              <ul>
+                {parseResult.errors.map((error) => (
+                  <li key={`error-${positionKey(error)}`}>
+                    {formatLocation(error)}: {tokenErrorMessage(error.errorType)}
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+          {diagnostics.length > 0 && (
+            <div className="warnings">
+              <div className="fw-bold">Warnings</div>
+              <ul>
+                {diagnostics.map((diagnostic, index) => (
+                  <li key={`warning-${index}`}>
+                    {formatLocation(diagnostic.token)}: {diagnostic.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
         </div>
       )}
       {lines.map((line, index) => (
@@ -272,6 +398,9 @@ export default function Page() {
             lineNum={index}
             line={line}
             lineTokens={tokensByLine.get(index) ?? []}
+            diagnosticTokens={diagnosticTokens}
+            variableTokens={variableTokens}
+            highlightedTokens={highlightedTokens}
               userPreferences={userPreferences}
           />
         </div>
@@ -296,20 +425,52 @@ export default function Page() {
         onSelect={handleSelect}
       ></textarea>
     </div>
+      <DependenciesPanel
+        dependencies={dependencies}
+        selectedKey={selectedDependencyKey}
+        onSelect={handleSelectDependency}
+      ></DependenciesPanel>
+      <EvaluationPanel
+        parseResult={parseResult}
+        locale={userPreferences.locale}
+      ></EvaluationPanel>
     </>
   );
 }
 
+/** Returns a unique key for the start position of a token. */
+function positionKey(token: Token): string {
+  return `${token.startPosition.lineNum}-${token.startPosition.colNum}`;
+}
+
+/** Formats the start position of a token for display, such as "Ln1, Col2". */
+function formatLocation(token: Token): string {
+  const loc = token.startPosition;
+  const lineNum = loc.lineNum + 1;
+  let colNum = loc.colNum + 1;
+  if (lineNum === 1) {
+    // Offset to account for the inserted equals sign.
+    colNum++;
+  }
+  return `Ln${lineNum}, Col${colNum}`;
+}
+
 /** Displays a stylized line. */
 function StylizedLine({
   lineNum,
   line,
   lineTokens,
+  diagnosticTokens,
+  variableTokens,
+  highlightedTokens,
   userPreferences,
 }: {
   lineNum: number;
   line: string;
   lineTokens: Token[];
+  diagnosticTokens: Set<Token>;
+  variableTokens: Set<Token>;
+  highlightedTokens: Set<Token>;
   userPreferences: UserPreferences;
 }) {
   function makeKey(key: string, index?: number) {
@@ -338,17 +499,26 @@ function StylizedLine({
     return lineElements;
   }
 
+  // The whitespace at the ends of the line is the trivia of its tokens.
+  const firstToken = lineTokens[0];
+  const lastToken = lineTokens[lineTokens.length - 1];
   let numTrailingSpaces = 0;
-  for (let i = line.length - 1; i >= 0; i--) {
-    if (line[i] !== " ") break;
-    numTrailingSpaces++;
+  if (lastToken === undefined) {
+    // The line is all whitespace.
+    numTrailingSpaces = line.length;
+  } else if (lastToken.endPosition.lineNum === lineNum) {
+    numTrailingSpaces = lastToken.trailingTrivia.length;
   }
   let numLeadingSpaces = 0;
-  if (lineNum !== 0 && numTrailingSpaces < line.length) {
-    for (let i = 0; i < line.length; i++) {
-    if (line[i] !== " ") break;
-    numLeadingSpaces++;
-  }
+  if (
+    lineNum !== 0 &&
+    firstToken !== undefined &&
+    // A token continuing from a previous line covers any leading spaces.
+    firstToken.startPosition.lineNum === lineNum
+  ) {
+    const { leadingTrivia } = firstToken;
+    numLeadingSpaces =
+      leadingTrivia.length - leadingTrivia.lastIndexOf("\n") - 1;
   }
   const trailingSpacesIndex = line.length - numTrailingSpaces;
 
@@ -368,8 +538,13 @@ function StylizedLine({
 
   // Stylized tokens. (Assume there are no tokens in leading whitespace).
   for (const token of lineTokens) {
-    const startCol = token.startPosition.colNum;
-    const endCol = token.endPosition.colNum;
+    // Only display the part of the token that is on this line.
+    const startCol =
+      token.startPosition.lineNum === lineNum ? token.startPosition.colNum : 0;
+    const endCol =
+      token.endPosition.lineNum === lineNum
+        ? token.endPosition.colNum
+        : line.length - 1;
     if (index < startCol) {
       lineElements.push(line.slice(index, startCol));
     }
@@ -379,9 +554,12 @@ function StylizedLine({
         className={makeClassName({
           [`token-${token.type}`]: true,
           [`token-${TokenType.ERROR}`]: !!token.errorType,
+          "token-variable": variableTokens.has(token),
+          "token-warning": diagnosticTokens.has(token),
+          "token-highlight": highlightedTokens.has(token),
         })}
       >
-        {token.content}
+        {line.slice(startCol, endCol + 1)}
       </span>
     );
     index = endCol + 1;
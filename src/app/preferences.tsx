@@ -1,15 +1,49 @@
 import { ChangeEvent } from "react";
 
+import { Dialect, dialectDisplayName } from "../parser/dialect";
+import {
+  OperatorPosition,
+  operatorPositionDisplayName,
+} from "../parser/formatNode";
+import { Locale, localeDisplayName } from "../parser/locale";
+
 export interface UserPreferences {
   /** The number of spaces in an indent. */
   tabSpaces: number;
   /** The max width of a line. */
   lineWidth: number;
+  /** The locale conventions for separators and decimal points. */
+  locale: Locale;
+  /** The spreadsheet application whose formula syntax is accepted. */
+  dialect: Dialect;
+  /**
+   * Whether to align the second arguments of pairs (such as the values in
+   * `IFS`) into a column when a call is wrapped.
+   */
+  alignArgumentPairs: boolean;
+  /**
+   * Whether to put closing brackets on the line of the last item instead of
+   * on their own line.
+   */
+  collapseClosingBrackets: boolean;
+  /**
+   * Whether to keep a call on one line and wrap only its last argument, if
+   * that argument is a call or an array.
+   */
+  hugLastArgument: boolean;
+  /** Where binary operators go when an expression is wrapped. */
+  operatorPosition: OperatorPosition;
 }
 
 export const DEFAULT_USER_PREFERENCES: UserPreferences = {
   tabSpaces: 2,
   lineWidth: 80,
+  locale: Locale.US,
+  dialect: Dialect.SHEETS,
+  alignArgumentPairs: false,
+  collapseClosingBrackets: false,
+  hugLastArgument: false,
+  operatorPosition: OperatorPosition.TRAILING,
 };
 
 export const PREFERENCES_PANE_ID = "preferences-pane";
@@ -17,11 +51,23 @@ export const PREFERENCES_PANE_ID = "preferences-pane";
 export function PreferencesPane({
   userPreferences,
   setUserPreferences,
+  convertLocale,
 }: {
   userPreferences: UserPreferences;
   setUserPreferences: (p: UserPreferences) => void;
+  /** Rewrites the formula into the given locale and switches to it. */
+  convertLocale: (locale: Locale) => void;
 }) {
-  const { tabSpaces, lineWidth } = userPreferences;
+  const {
+    tabSpaces,
+    lineWidth,
+    locale,
+    dialect,
+    alignArgumentPairs,
+    collapseClosingBrackets,
+    hugLastArgument,
+    operatorPosition,
+  } = userPreferences;
 
   function handleNumberInputChange(
     defaultVal: number,
@@ -42,6 +88,39 @@ export function PreferencesPane({
     setUserPreferences({ ...userPreferences, lineWidth: lineWidth + delta });
   }
 
+  function handleLocaleChange(event: ChangeEvent<HTMLSelectElement>) {
+    setUserPreferences({
+      ...userPreferences,
+      locale: event.currentTarget.value as Locale,
+    });
+  }
+  const otherLocale = locale === Locale.US ? Locale.EU : Locale.US;
+
+  function handleDialectChange(event: ChangeEvent<HTMLSelectElement>) {
+    setUserPreferences({
+      ...userPreferences,
+      dialect: event.currentTarget.value as Dialect,
+    });
+  }
+
+  function handleOperatorPositionChange(event: ChangeEvent<HTMLSelectElement>) {
+    setUserPreferences({
+      ...userPreferences,
+      operatorPosition: event.currentTarget.value as OperatorPosition,
+    });
+  }
+
+  function handleCheckboxChange(
+    key: "alignArgumentPairs" | "collapseClosingBrackets" | "hugLastArgument"
+  ) {
+    return (event: ChangeEvent<HTMLInputElement>) => {
+      setUserPreferences({
+        ...userPreferences,
+        [key]: event.currentTarget.checked,
+      });
+    };
+  }
+
   function handleResetDefaults() {
     setUserPreferences({ ...DEFAULT_USER_PREFERENCES });
   }
@@ -51,6 +130,18 @@ export function PreferencesPane({
   const tabSpacesDescId = `${tabSpacesInputId}-desc`;
   const lineWidthInputId = "line-width-input";
   const lineWidthDescId = `${lineWidthInputId}-desc`;
+  const localeSelectId = "locale-select";
+  const localeDescId = `${localeSelectId}-desc`;
+  const dialectSelectId = "dialect-select";
+  const dialectDescId = `${dialectSelectId}-desc`;
+  const alignPairsCheckId = "align-pairs-check";
+  const alignPairsDescId = `${alignPairsCheckId}-desc`;
+  const collapseBracketsCheckId = "collapse-brackets-check";
+  const collapseBracketsDescId = `${collapseBracketsCheckId}-desc`;
+  const hugLastArgumentCheckId = "hug-last-argument-check";
+  const hugLastArgumentDescId = `${hugLastArgumentCheckId}-desc`;
+  const operatorPositionSelectId = "operator-position-select";
+  const operatorPositionDescId = `${operatorPositionSelectId}-desc`;
   return (
     <div
       id={PREFERENCES_PANE_ID}
@@ -129,6 +220,146 @@ export function PreferencesPane({
             The max width of a line.
           </div>
         </div>
+        <div className="mb-3">
+          <label htmlFor={localeSelectId} className="form-label">
+            Locale
+          </label>
+          <select
+            id={localeSelectId}
+            className="form-select mb-2"
+            value={locale}
+            aria-describedby={localeDescId}
+            onChange={handleLocaleChange}
+          >
+            {Object.values(Locale).map((value) => (
+              <option key={value} value={value}>
+                {localeDisplayName(value)}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            className="btn btn-outline-secondary"
+            onClick={() => convertLocale(otherLocale)}
+          >
+            Convert formula to {localeDisplayName(otherLocale)}
+          </button>
+          <div id={localeDescId} className="form-text">
+            The separators and decimal points used in formulas. Changing the
+            locale does not change the formula; use the convert button to
+            rewrite it.
+          </div>
+        </div>
+        <div className="mb-3">
+          <label htmlFor={dialectSelectId} className="form-label">
+            Dialect
+          </label>
+          <select
+            id={dialectSelectId}
+            className="form-select"
+            value={dialect}
+            aria-describedby={dialectDescId}
+            onChange={handleDialectChange}
+          >
+            {Object.values(Dialect).map((value) => (
+              <option key={value} value={value}>
+                {dialectDisplayName(value)}
+              </option>
+            ))}
+          </select>
+          <div id={dialectDescId} className="form-text">
+            The spreadsheet application to write formulas for. Excel syntax,
+            such as structured table references, is reported as an error in
+            Google Sheets.
+          </div>
+        </div>
+        <div className="mb-3">
+          <div className="form-check">
+            <input
+              id={alignPairsCheckId}
+              type="checkbox"
+              className="form-check-input"
+              checked={alignArgumentPairs}
+              aria-describedby={alignPairsDescId}
+              onChange={handleCheckboxChange("alignArgumentPairs")}
+            />
+            <label htmlFor={alignPairsCheckId} className="form-check-label">
+              Align Argument Pairs
+            </label>
+          </div>
+          <div id={alignPairsDescId} className="form-text">
+            Arguments that go together, such as the conditions and values in{" "}
+            <code>IFS</code> or the names and values in <code>LET</code>, are
+            kept on the same line. This aligns the values into a column.
+          </div>
+        </div>
+        <div className="mb-3">
+          <div className="form-check">
+            <input
+              id={collapseBracketsCheckId}
+              type="checkbox"
+              className="form-check-input"
+              checked={collapseClosingBrackets}
+              aria-describedby={collapseBracketsDescId}
+              onChange={handleCheckboxChange("collapseClosingBrackets")}
+            />
+            <label
+              htmlFor={collapseBracketsCheckId}
+              className="form-check-label"
+            >
+              Collapse Closing Brackets
+            </label>
+          </div>
+          <div id={collapseBracketsDescId} className="form-text">
+            Puts closing brackets at the end of the last line inside them, such
+            as <code>))</code>, instead of on their own lines.
+          </div>
+        </div>
+        <div className="mb-3">
+          <div className="form-check">
+            <input
+              id={hugLastArgumentCheckId}
+              type="checkbox"
+              className="form-check-input"
+              checked={hugLastArgument}
+              aria-describedby={hugLastArgumentDescId}
+              onChange={handleCheckboxChange("hugLastArgument")}
+            />
+            <label
+              htmlFor={hugLastArgumentCheckId}
+              className="form-check-label"
+            >
+              Hug Last Argument
+            </label>
+          </div>
+          <div id={hugLastArgumentDescId} className="form-text">
+            When the last argument of a call is another call or an array, keeps
+            the call on one line and only wraps the last argument.
+          </div>
+        </div>
+        <div className="mb-3">
+          <label htmlFor={operatorPositionSelectId} className="form-label">
+            Operator Position
+          </label>
+          <select
+            id={operatorPositionSelectId}
+            className="form-select"
+            value={operatorPosition}
+            aria-describedby={operatorPositionDescId}
+            onChange={handleOperatorPositionChange}
+          >
+            {Object.values(OperatorPosition).map((value) => (
+              <option key={value} value={value}>
+                {operatorPositionDisplayName(value)}
+              </option>
+            ))}
+          </select>
+          <div id={operatorPositionDescId} className="form-text">
+            Where operators go when a long expression is wrapped. The operators
+            that bind the loosest, such as <code>+</code> around <code>*</code>,
+            are wrapped first.
+          </div>
+        </div>
         <div>
           <button
             type="button"
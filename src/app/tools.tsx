@@ -0,0 +1,449 @@
+import { ChangeEvent, useState } from "react";
+
+import { UserPreferences } from "./preferences";
+import { convertReferenceNotation } from "../parser/convert";
+import {
+  lettersToColumn,
+  parseCellAddress,
+  ReferenceNotation,
+  unquoteSheetName,
+} from "../parser/reference";
+import { removeUnneededSheetQuotes, renameSheet } from "../parser/sheets";
+import { applyGridEdit, GridEditType, shiftReferences } from "../parser/shift";
+import { makeClassName } from "../utils/className";
+
+export const TOOLS_PANE_ID = "tools-pane";
+
+/** Moving the formula to another cell, as opposed to editing the sheet. */
+const COPY_FORMULA = "COPY";
+
+type ShiftType = typeof COPY_FORMULA | GridEditType;
+
+/** The ways that the references in a formula can be shifted. */
+const SHIFT_TYPES: ShiftType[] = [
+  COPY_FORMULA,
+  GridEditType.INSERT_ROWS,
+  GridEditType.DELETE_ROWS,
+  GridEditType.INSERT_COLUMNS,
+  GridEditType.DELETE_COLUMNS,
+];
+
+export function ToolsPane({
+  lines,
+  setLines,
+  userPreferences,
+}: {
+  lines: string[];
+  setLines: (lines: string[]) => void;
+  userPreferences: UserPreferences;
+}) {
+  const [anchorText, setAnchorText] = useState("A1");
+  const anchor = parseCellAddress(anchorText);
+
+  function handleAnchorChange(event: ChangeEvent<HTMLInputElement>) {
+    setAnchorText(event.currentTarget.value);
+  }
+
+  function handleConvertNotation(notation: ReferenceNotation) {
+    if (anchor === null) return;
+    setLines(
+      convertReferenceNotation(lines, notation, anchor, userPreferences.locale)
+    );
+  }
+
+  const [shiftType, setShiftType] = useState<ShiftType>(COPY_FORMULA);
+  const [rowOffsetText, setRowOffsetText] = useState("1");
+  const [colOffsetText, setColOffsetText] = useState("0");
+  const [sheetNameText, setSheetNameText] = useState("");
+  const [formulaSheetNameText, setFormulaSheetNameText] = useState("");
+  const [indexText, setIndexText] = useState("1");
+  const [countText, setCountText] = useState("1");
+  const isRowEdit =
+    shiftType === GridEditType.INSERT_ROWS ||
+    shiftType === GridEditType.DELETE_ROWS;
+  const rowOffset = parseInteger(rowOffsetText);
+  const colOffset = parseInteger(colOffsetText);
+  const editIndex = isRowEdit
+    ? parseRowNumber(indexText)
+    : parseColumnLetters(indexText);
+  const count = parseInteger(countText);
+  const canShift =
+    anchor !== null &&
+    (shiftType === COPY_FORMULA
+      ? rowOffset !== null && colOffset !== null
+      : editIndex !== null && count !== null && count > 0);
+
+  function handleShiftReferences() {
+    if (!canShift) return;
+    const { locale } = userPreferences;
+    if (shiftType === COPY_FORMULA) {
+      setLines(
+        shiftReferences(
+          lines,
+          { rows: rowOffset!, cols: colOffset! },
+          anchor!,
+          locale
+        )
+      );
+    } else {
+      const sheetName = sheetNameText.trim();
+      const formulaSheetName = formulaSheetNameText.trim();
+      const edit = {
+        type: shiftType,
+        sheetName: sheetName === "" ? null : unquoteSheetName(sheetName),
+        index: editIndex!,
+        count: count!,
+      };
+      setLines(
+        applyGridEdit(
+          lines,
+          edit,
+          anchor!,
+          formulaSheetName === "" ? null : unquoteSheetName(formulaSheetName),
+          locale
+        )
+      );
+    }
+  }
+
+  const [oldSheetNameText, setOldSheetNameText] = useState("");
+  const [newSheetNameText, setNewSheetNameText] = useState("");
+  const [renameIndirect, setRenameIndirect] = useState(false);
+  const [renameWarning, setRenameWarning] = useState<string | null>(null);
+  const oldSheetName = unquoteSheetName(oldSheetNameText.trim());
+  const newSheetName = unquoteSheetName(newSheetNameText.trim());
+  const canRenameSheet = oldSheetName !== "" && newSheetName !== "";
+
+  function handleRenameSheet() {
+    if (!canRenameSheet) return;
+    const result = renameSheet(
+      lines,
+      oldSheetName,
+      newSheetName,
+      renameIndirect,
+      userPreferences.locale
+    );
+    setLines(result.lines);
+    const count = result.indirectTokens.length;
+    if (count === 0) {
+      setRenameWarning(null);
+    } else if (renameIndirect) {
+      setRenameWarning(
+        `Renamed the sheet in ${count} INDIRECT string(s). Strings aren't ` +
+          "checked to be references, so make sure they are still correct."
+      );
+    } else {
+      setRenameWarning(
+        `${count} INDIRECT string(s) refer to the sheet and weren't renamed.`
+      );
+    }
+  }
+
+  const labelId = `${TOOLS_PANE_ID}-label`;
+  const anchorInputId = "anchor-cell-input";
+  const anchorDescId = `${anchorInputId}-desc`;
+  const shiftSelectId = "shift-type-select";
+  const shiftDescId = `${shiftSelectId}-desc`;
+  const oldSheetInputId = "old-sheet-name-input";
+  const renameDescId = `${oldSheetInputId}-desc`;
+  const renameIndirectCheckId = "rename-indirect-check";
+  return (
+    <div
+      id={TOOLS_PANE_ID}
+      className="offcanvas offcanvas-end"
+      data-bs-backdrop="false"
+      data-bs-scroll="true"
+      tabIndex={-1}
+      aria-labelledby={labelId}
+    >
+      <div className="offcanvas-header">
+        <h5 id={labelId} className="offcanvas-title">
+          Tools
+        </h5>
+        <button
+          type="button"
+          className="btn-close"
+          data-bs-dismiss="offcanvas"
+          aria-label="Close"
+        ></button>
+      </div>
+      <div className="offcanvas-body">
+        <div className="mb-3">
+          <label htmlFor={anchorInputId} className="form-label">
+            Reference Notation
+          </label>
+          <div className="input-group">
+            <span className="input-group-text">Anchor cell</span>
+            <input
+              id={anchorInputId}
+              type="text"
+              className={makeClassName({
+                "form-control": true,
+                "is-invalid": anchor === null,
+              })}
+              value={anchorText}
+              aria-describedby={anchorDescId}
+              onChange={handleAnchorChange}
+            />
+          </div>
+          <div className="d-flex gap-2 mt-2">
+            <button
+              type="button"
+              className="btn btn-outline-secondary"
+              disabled={anchor === null}
+              onClick={() => handleConvertNotation(ReferenceNotation.A1)}
+            >
+              Convert to A1
+            </button>
+            <button
+              type="button"
+              className="btn btn-outline-secondary"
+              disabled={anchor === null}
+              onClick={() => handleConvertNotation(ReferenceNotation.R1C1)}
+            >
+              Convert to R1C1
+            </button>
+          </div>
+          <div id={anchorDescId} className="form-text">
+            Rewrites the references in the formula as if it was in the anchor
+            cell. References that would be off the sheet become{" "}
+            <code>#REF!</code>.
+          </div>
+        </div>
+        <div className="mb-3">
+          <label htmlFor={shiftSelectId} className="form-label">
+            Shift References
+          </label>
+          <select
+            id={shiftSelectId}
+            className="form-select mb-2"
+            value={shiftType}
+            aria-describedby={shiftDescId}
+            onChange={(event) =>
+              setShiftType(event.currentTarget.value as ShiftType)
+            }
+          >
+            {SHIFT_TYPES.map((value) => (
+              <option key={value} value={value}>
+                {shiftTypeDisplayName(value)}
+              </option>
+            ))}
+          </select>
+          {shiftType === COPY_FORMULA ? (
+            <div className="input-group mb-2">
+              <span className="input-group-text">Rows</span>
+              <input
+                type="text"
+                className={makeClassName({
+                  "form-control": true,
+                  "is-invalid": rowOffset === null,
+                })}
+                value={rowOffsetText}
+                inputMode="numeric"
+                aria-label="Rows down"
+                onChange={(event) =>
+                  setRowOffsetText(event.currentTarget.value)
+                }
+              />
+              <span className="input-group-text">Columns</span>
+              <input
+                type="text"
+                className={makeClassName({
+                  "form-control": true,
+                  "is-invalid": colOffset === null,
+                })}
+                value={colOffsetText}
+                inputMode="numeric"
+                aria-label="Columns right"
+                onChange={(event) =>
+                  setColOffsetText(event.currentTarget.value)
+                }
+              />
+            </div>
+          ) : (
+            <>
+              <div className="input-group mb-2">
+                <span className="input-group-text">
+                  {isRowEdit ? "Row" : "Column"}
+                </span>
+                <input
+                  type="text"
+                  className={makeClassName({
+                    "form-control": true,
+                    "is-invalid": editIndex === null,
+                  })}
+                  value={indexText}
+                  aria-label={isRowEdit ? "Row number" : "Column letters"}
+                  onChange={(event) => setIndexText(event.currentTarget.value)}
+                />
+                <span className="input-group-text">Count</span>
+                <input
+                  type="text"
+                  className={makeClassName({
+                    "form-control": true,
+                    "is-invalid": count === null || count <= 0,
+                  })}
+                  value={countText}
+                  inputMode="numeric"
+                  aria-label="Count"
+                  onChange={(event) => setCountText(event.currentTarget.value)}
+                />
+              </div>
+              <div className="input-group mb-2">
+                <span className="input-group-text">Sheet</span>
+                <input
+                  type="text"
+                  className="form-control"
+                  value={sheetNameText}
+                  placeholder="Formula's sheet"
+                  aria-label="Sheet name"
+                  onChange={(event) =>
+                    setSheetNameText(event.currentTarget.value)
+                  }
+                />
+                <span className="input-group-text">Formula on</span>
+                <input
+                  type="text"
+                  className="form-control"
+                  value={formulaSheetNameText}
+                  placeholder="Unnamed sheet"
+                  aria-label="Formula's sheet name"
+                  onChange={(event) =>
+                    setFormulaSheetNameText(event.currentTarget.value)
+                  }
+                />
+              </div>
+            </>
+          )}
+          <button
+            type="button"
+            className="btn btn-outline-secondary"
+            disabled={!canShift}
+            onClick={handleShiftReferences}
+          >
+            Shift references
+          </button>
+          <div id={shiftDescId} className="form-text">
+            Rewrites the references as if the formula in the anchor cell was
+            copied by the given offset, or as if rows or columns were inserted
+            before (or deleted starting at) the given one. References that would
+            be off the sheet or deleted become <code>#REF!</code>. References
+            without a sheet name are on the formula&apos;s sheet, so they only
+            shift if it is the edited sheet.
+          </div>
+        </div>
+        <div className="mb-3">
+          <label htmlFor={oldSheetInputId} className="form-label">
+            Rename Sheet
+          </label>
+          <div className="input-group mb-2">
+            <input
+              id={oldSheetInputId}
+              type="text"
+              className="form-control"
+              value={oldSheetNameText}
+              placeholder="Sheet1"
+              aria-label="Old sheet name"
+              aria-describedby={renameDescId}
+              onChange={(event) => {
+                setOldSheetNameText(event.currentTarget.value);
+                setRenameWarning(null);
+              }}
+            />
+            <span className="input-group-text">to</span>
+            <input
+              type="text"
+              className="form-control"
+              value={newSheetNameText}
+              aria-label="New sheet name"
+              onChange={(event) => {
+                setNewSheetNameText(event.currentTarget.value);
+                setRenameWarning(null);
+              }}
+            />
+          </div>
+          <div className="form-check mb-2">
+            <input
+              id={renameIndirectCheckId}
+              type="checkbox"
+              className="form-check-input"
+              checked={renameIndirect}
+              onChange={(event) =>
+                setRenameIndirect(event.currentTarget.checked)
+              }
+            />
+            <label htmlFor={renameIndirectCheckId} className="form-check-label">
+              Also rename in <code>INDIRECT</code> strings
+            </label>
+          </div>
+          <div className="d-flex gap-2">
+            <button
+              type="button"
+              className="btn btn-outline-secondary"
+              disabled={!canRenameSheet}
+              onClick={handleRenameSheet}
+            >
+              Rename sheet
+            </button>
+            <button
+              type="button"
+              className="btn btn-outline-secondary"
+              onClick={() =>
+                setLines(
+                  removeUnneededSheetQuotes(lines, userPreferences.locale)
+                )
+              }
+            >
+              Remove unneeded quotes
+            </button>
+          </div>
+          {renameWarning !== null && (
+            <div className="form-text text-warning-emphasis">
+              {renameWarning}
+            </div>
+          )}
+          <div id={renameDescId} className="form-text">
+            Renames the sheet in every reference to it, adding quotes to the new
+            name only if it needs them.
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function shiftTypeDisplayName(shiftType: ShiftType): string {
+  switch (shiftType) {
+    case COPY_FORMULA:
+      return "Copy the formula";
+    case GridEditType.INSERT_ROWS:
+      return "Insert rows";
+    case GridEditType.DELETE_ROWS:
+      return "Delete rows";
+    case GridEditType.INSERT_COLUMNS:
+      return "Insert columns";
+    case GridEditType.DELETE_COLUMNS:
+      return "Delete columns";
+  }
+}
+
+/** Parses a whole number, which can be negative. Returns null if invalid. */
+function parseInteger(text: string): number | null {
+  const trimmed = text.trim();
+  if (!/^[+-]?\d+$/.test(trimmed)) return null;
+  return parseInt(trimmed);
+}
+
+/** Parses a row number into its 0-indexed row. Returns null if invalid. */
+function parseRowNumber(text: string): number | null {
+  const row = parseInteger(text);
+  if (row === null || row < 1) return null;
+  return row - 1;
+}
+
+/** Parses column letters (such as "AB") into a column. */
+function parseColumnLetters(text: string): number | null {
+  const trimmed = text.trim();
+  if (!/^[a-z]+$/i.test(trimmed)) return null;
+  return lettersToColumn(trimmed);
+}
@@ -0,0 +1,354 @@
+import {
+  arrayFunction,
+  checkArraySize,
+  createMatrix,
+  deref,
+  EvaluationContext,
+  FunctionImplementation,
+  getBroadcastCell,
+  mapMatrix,
+  toCell,
+  toMatrix,
+  transpose,
+  withNumbers,
+} from "./helpers";
+import {
+  ArrayValue,
+  CellValue,
+  compareValues,
+  createError,
+  ErrorCode,
+  ErrorValue,
+  isError,
+  isLambda,
+  LambdaValue,
+  toBoolean,
+  Value,
+} from "../values";
+
+/** The array functions, including the ones that take a LAMBDA. */
+export const ARRAY_FUNCTIONS: Record<string, FunctionImplementation> = {
+  ARRAY_CONSTRAIN: arrayFunction(([array, numRows, numCols], context) =>
+    withNumbers(
+      [toCell(numRows, context), toCell(numCols, context)],
+      (numRows, numCols) =>
+        numRows < 1 || numCols < 1
+          ? createError(
+              ErrorCode.VALUE,
+              "ARRAY_CONSTRAIN expects a positive size"
+            )
+          : toMatrix(array, context)
+              .slice(0, numRows)
+              .map((values) => values.slice(0, numCols))
+    )
+  ),
+  ARRAYFORMULA: arrayFunction(([value], context) => deref(value, context)),
+  BYCOL: arrayFunction(([array, lambda], context) =>
+    withLambda("BYCOL", lambda, (lambda) =>
+      transpose(
+        transpose(toMatrix(array, context)).map((values) => [
+          toCell(lambda.call([values.map((value) => [value])]), context),
+        ])
+      )
+    )
+  ),
+  BYROW: arrayFunction(([array, lambda], context) =>
+    withLambda("BYROW", lambda, (lambda) =>
+      toMatrix(array, context).map((values) => [
+        toCell(lambda.call([[values]]), context),
+      ])
+    )
+  ),
+  CHOOSECOLS: arrayFunction(([array, ...cols], context) => {
+    const columns = chooseIndices(
+      transpose(toMatrix(array, context)),
+      cols,
+      context
+    );
+    return isError(columns) ? columns : transpose(columns);
+  }),
+  CHOOSEROWS: arrayFunction(([array, ...rows], context) =>
+    chooseIndices(toMatrix(array, context), rows, context)
+  ),
+  FILTER: arrayFunction(([range, ...conditions], context) => {
+    const array = toMatrix(range, context);
+    let keepRows: boolean[] | null = null;
+    let keepCols: boolean[] | null = null;
+    for (const condition of conditions) {
+      const values = toMatrix(condition, context);
+      const isRowCondition =
+        values[0].length === 1 && values.length === array.length;
+      if (
+        !isRowCondition &&
+        !(values.length === 1 && values[0].length === array[0].length)
+      ) {
+        return createError(
+          ErrorCode.VALUE,
+          "FILTER conditions must match the rows or columns of the range"
+        );
+      }
+      const keep = combineConditions(
+        isRowCondition ? keepRows : keepCols,
+        values.flat()
+      );
+      if (isError(keep)) return keep;
+      if (isRowCondition) {
+        keepRows = keep;
+      } else {
+        keepCols = keep;
+      }
+    }
+    const result = array
+      .filter((_, row) => keepRows === null || keepRows[row])
+      .map((values) =>
+        values.filter((_, col) => keepCols === null || keepCols[col])
+      );
+    if (result.length === 0 || result[0].length === 0) {
+      return createError(ErrorCode.NA, "No matches are found in FILTER");
+    }
+    return result;
+  }),
+  FLATTEN: arrayFunction((args, context) =>
+    args.flatMap((arg) =>
+      toMatrix(arg, context)
+        .flat()
+        .map((cell) => [cell])
+    )
+  ),
+  HSTACK: arrayFunction((args, context) =>
+    transpose(stackArrays(args.map((arg) => transpose(toMatrix(arg, context)))))
+  ),
+  MAKEARRAY: arrayFunction(([numRows, numCols, lambda], context) =>
+    withNumbers(
+      [toCell(numRows, context), toCell(numCols, context)],
+      (numRows, numCols) =>
+        withLambda("MAKEARRAY", lambda, (lambda) => {
+          [numRows, numCols] = [Math.trunc(numRows), Math.trunc(numCols)];
+          return (
+            checkArraySize("MAKEARRAY", numRows, numCols) ??
+            mapMatrix(createMatrix(numRows, numCols, null), (_, row, col) =>
+              toCell(lambda.call([row + 1, col + 1]), context)
+            )
+          );
+        })
+    )
+  ),
+  MAP: arrayFunction((args, context) =>
+    withLambda("MAP", args[args.length - 1], (lambda) => {
+      const arrays = args.slice(0, -1).map((array) => toMatrix(array, context));
+      const numRows = Math.max(...arrays.map((array) => array.length));
+      const numCols = Math.max(...arrays.map((array) => array[0].length));
+      return mapMatrix(createMatrix(numRows, numCols, null), (_, row, col) =>
+        toCell(
+          lambda.call(arrays.map((array) => getBroadcastCell(array, row, col))),
+          context
+        )
+      );
+    })
+  ),
+  REDUCE: arrayFunction(([initial, array, lambda], context) =>
+    withLambda("REDUCE", lambda, (lambda) =>
+      toMatrix(array, context)
+        .flat()
+        .reduce(
+          (accumulator, value) => lambda.call([accumulator, value]),
+          initial
+        )
+    )
+  ),
+  SCAN: arrayFunction(([initial, array, lambda], context) =>
+    withLambda("SCAN", lambda, (lambda) => {
+      let accumulator = initial;
+      return mapMatrix(toMatrix(array, context), (value) => {
+        accumulator = lambda.call([accumulator, value]);
+        return toCell(accumulator, context);
+      });
+    })
+  ),
+  SEQUENCE: arrayFunction(
+    ([numRows, numCols = 1, start = 1, step = 1], context) =>
+      withNumbers(
+        [numRows, numCols, start, step].map((arg) => toCell(arg, context)),
+        (numRows, numCols, start, step) => {
+          [numRows, numCols] = [Math.trunc(numRows), Math.trunc(numCols)];
+          return (
+            checkArraySize("SEQUENCE", numRows, numCols) ??
+            mapMatrix(
+              createMatrix(numRows, numCols, null),
+              (_, row, col) => start + (row * numCols + col) * step
+            )
+          );
+        }
+      )
+  ),
+  SORT: arrayFunction(([range, ...sortArgs], context) => {
+    const array = toMatrix(range, context);
+    const keys: Array<[number, boolean]> = [];
+    for (let i = 0; i < Math.max(sortArgs.length, 1); i += 2) {
+      const col = toCell(sortArgs[i] ?? 1, context);
+      const ascending = toBoolean(toCell(sortArgs[i + 1] ?? true, context));
+      if (isError(ascending)) return ascending;
+      const result = withNumbers([col], (col) =>
+        col < 1 || col > array[0].length
+          ? createError(ErrorCode.VALUE, `SORT has no column ${col}`)
+          : col
+      );
+      if (isError(result)) return result;
+      keys.push([Math.trunc(result as number) - 1, ascending]);
+    }
+    return [...array].sort((values1, values2) => {
+      for (const [col, ascending] of keys) {
+        const cmp = compareCells(values1[col], values2[col]);
+        if (cmp !== 0) return ascending ? cmp : -cmp;
+      }
+      return 0;
+    });
+  }),
+  TOCOL: arrayFunction(([array, ignore = 0, scanByColumn = false], context) =>
+    toVector(array, ignore, scanByColumn, context, (cells) =>
+      cells.map((cell) => [cell])
+    )
+  ),
+  TOROW: arrayFunction(([array, ignore = 0, scanByColumn = false], context) =>
+    toVector(array, ignore, scanByColumn, context, (cells) => [cells])
+  ),
+  TRANSPOSE: arrayFunction(([array], context) =>
+    transpose(toMatrix(array, context))
+  ),
+  UNIQUE: arrayFunction(
+    ([range, byColumn = false, exactlyOnce = false], context) => {
+      const byCol = toBoolean(toCell(byColumn, context));
+      if (isError(byCol)) return byCol;
+      const once = toBoolean(toCell(exactlyOnce, context));
+      if (isError(once)) return once;
+      const array = toMatrix(range, context);
+      const lines = byCol ? transpose(array) : array;
+      const counts = new Map<string, number>();
+      for (const values of lines) {
+        const key = getUniqueKey(values);
+        counts.set(key, (counts.get(key) ?? 0) + 1);
+      }
+      const seen = new Set<string>();
+      const result = lines.filter((values) => {
+        const key = getUniqueKey(values);
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return !once || counts.get(key) === 1;
+      });
+      if (result.length === 0) {
+        return createError(ErrorCode.NA, "No unique values are found");
+      }
+      return byCol ? transpose(result) : result;
+    }
+  ),
+  VSTACK: arrayFunction((args, context) =>
+    stackArrays(args.map((arg) => toMatrix(arg, context)))
+  ),
+};
+
+/** Calls `fn` with a LAMBDA argument, or returns an error if it isn't one. */
+function withLambda(
+  name: string,
+  value: Value,
+  fn: (lambda: LambdaValue) => Value
+): Value {
+  if (!isLambda(value)) {
+    return createError(ErrorCode.VALUE, `${name} expects a LAMBDA`);
+  }
+  return fn(value);
+}
+
+/**
+ * Stacks arrays vertically. Arrays with fewer columns are padded with `#N/A`.
+ */
+function stackArrays(arrays: ArrayValue[]): ArrayValue {
+  const numCols = Math.max(...arrays.map((array) => array[0].length));
+  return arrays.flatMap((array) =>
+    array.map((values) => [
+      ...values,
+      ...createMatrix(
+        1,
+        numCols - values.length,
+        createError(ErrorCode.NA, "The arrays are of different widths")
+      )[0],
+    ])
+  );
+}
+
+/** Returns the rows at the given 1-based indices, counting back if negative. */
+function chooseIndices(
+  array: ArrayValue,
+  indices: Value[],
+  context: EvaluationContext
+): ArrayValue | ErrorValue {
+  const rows = [];
+  for (const index of indices) {
+    const result = withNumbers([toCell(index, context)], (index) => {
+      const row = index < 0 ? array.length + Math.trunc(index) : index - 1;
+      return row < 0 || row >= array.length
+        ? createError(ErrorCode.VALUE, `Index ${index} is out of range`)
+        : row;
+    });
+    if (isError(result)) return result;
+    rows.push(array[result as number]);
+  }
+  return rows;
+}
+
+/** Combines a FILTER condition with the previous ones for the same axis. */
+function combineConditions(
+  previous: boolean[] | null,
+  values: CellValue[]
+): boolean[] | ErrorValue {
+  const keep = [];
+  for (let i = 0; i < values.length; i++) {
+    const boolean = toBoolean(values[i]);
+    if (isError(boolean)) return boolean;
+    keep.push(boolean && (previous === null || previous[i]));
+  }
+  return keep;
+}
+
+/** Compares cells for sorting. Blanks and errors are sorted last. */
+function compareCells(value1: CellValue, value2: CellValue): number {
+  const last1 = value1 === null || isError(value1);
+  const last2 = value2 === null || isError(value2);
+  if (last1 || last2) return Number(last1) - Number(last2);
+  return compareValues(
+    value1 as Exclude<CellValue, ErrorValue>,
+    value2 as Exclude<CellValue, ErrorValue>
+  );
+}
+
+/** Returns a key that is the same for rows with the same values. */
+function getUniqueKey(values: CellValue[]): string {
+  return JSON.stringify(
+    values.map((value) => (isError(value) ? value.code : [typeof value, value]))
+  );
+}
+
+/** Flattens an array for `TOCOL` and `TOROW`, skipping values to ignore. */
+function toVector(
+  array: Value,
+  ignore: Value,
+  scanByColumn: Value,
+  context: EvaluationContext,
+  fn: (cells: CellValue[]) => ArrayValue
+): Value {
+  const byColumn = toBoolean(toCell(scanByColumn, context));
+  if (isError(byColumn)) return byColumn;
+  return withNumbers([toCell(ignore, context)], (ignore) => {
+    const matrix = toMatrix(array, context);
+    const cells = (byColumn ? transpose(matrix) : matrix)
+      .flat()
+      .filter(
+        (cell) =>
+          !((ignore === 1 || ignore === 3) && cell === null) &&
+          !((ignore === 2 || ignore === 3) && isError(cell))
+      );
+    if (cells.length === 0) {
+      return createError(ErrorCode.NA, "There are no values left");
+    }
+    return fn(cells);
+  });
+}
@@ -0,0 +1,355 @@
+import { clipReference, Grid, readReference } from "../grid";
+import {
+  ArrayValue,
+  CellValue,
+  compareValues,
+  createError,
+  ErrorCode,
+  ErrorValue,
+  isArray,
+  isError,
+  isLambda,
+  isReference,
+  MAX_ARRAY_CELLS,
+  parseNumber,
+  ReferenceValue,
+  toNumber,
+  Value,
+} from "../values";
+import { Locale } from "../../parser/locale";
+import { CellAddress } from "../../parser/reference";
+
+/** The environment that a formula is evaluated in. */
+export interface EvaluationContext {
+  /** The cells that references refer to. */
+  grid: Grid;
+  /** The cell that the formula is in. */
+  anchor: CellAddress;
+  /** The locale of the formula, for number literals. */
+  locale: Locale;
+}
+
+/** The implementation of a built-in function. */
+export interface FunctionImplementation {
+  /** Calls the function. The arguments have already been evaluated. */
+  call: (args: Value[], context: EvaluationContext) => Value;
+}
+
+/**
+ * Defines a function that takes single values. If any argument is an array,
+ * the function is applied to each element, and the result is an array.
+ */
+export function scalarFunction(
+  fn: (...args: CellValue[]) => Value
+): FunctionImplementation {
+  return liftedFunction([], (args) => fn(...(args as CellValue[])));
+}
+
+/**
+ * Defines a function where the arguments at `arrayParams` are passed as they
+ * are (such as a lookup range), and the others are applied elementwise like in
+ * `scalarFunction`.
+ */
+export function liftedFunction(
+  arrayParams: number[],
+  fn: (args: Value[], context: EvaluationContext) => Value
+): FunctionImplementation {
+  return {
+    call(args, context) {
+      const values = args.map((arg, index) => {
+        if (arrayParams.includes(index)) return arg;
+        const value = deref(arg, context);
+        // A single cell is the same as a single value.
+        return isArray(value) && value.length === 1 && value[0].length === 1
+          ? value[0][0]
+          : value;
+      });
+      const arrays = values.filter(
+        (value, index) => !arrayParams.includes(index) && isArray(value)
+      ) as ArrayValue[];
+      if (arrays.length === 0) {
+        return fn(values, context);
+      }
+      const numRows = Math.max(...arrays.map((array) => array.length));
+      const numCols = Math.max(...arrays.map((array) => array[0].length));
+      return mapMatrix(createMatrix(numRows, numCols, null), (_, row, col) =>
+        toCell(
+          fn(
+            values.map((value, index) =>
+              !arrayParams.includes(index) && isArray(value)
+                ? getBroadcastCell(value, row, col)
+                : value
+            ),
+            context
+          ),
+          context
+        )
+      );
+    },
+  };
+}
+
+/** Defines a function whose arguments are all passed as they are. */
+export function arrayFunction(
+  fn: (args: Value[], context: EvaluationContext) => Value
+): FunctionImplementation {
+  return { call: fn };
+}
+
+/**
+ * Returns the element of an array for a position in a larger array. A single
+ * row or column is repeated to fill the larger array.
+ */
+export function getBroadcastCell(
+  array: ArrayValue,
+  row: number,
+  col: number
+): CellValue {
+  const arrayRow = array.length === 1 ? 0 : row;
+  const arrayCol = array[0].length === 1 ? 0 : col;
+  if (arrayRow >= array.length || arrayCol >= array[0].length) {
+    return createError(ErrorCode.NA, "Array arguments are of different size");
+  }
+  return array[arrayRow][arrayCol];
+}
+
+/**
+ * Reads the cells of a reference. An empty array becomes an error, so arrays
+ * that are read always have at least one cell. Other values are returned
+ * unchanged.
+ */
+export function deref(
+  value: Value,
+  context: EvaluationContext
+): Exclude<Value, ReferenceValue> {
+  if (isReference(value)) return readReference(context.grid, value);
+  if (isArray(value) && (value.length === 0 || value[0].length === 0)) {
+    return createError(ErrorCode.VALUE, "The array is empty");
+  }
+  return value;
+}
+
+/** Converts a value to an array. A single value becomes a 1x1 array. */
+export function toMatrix(value: Value, context: EvaluationContext): ArrayValue {
+  const derefValue = deref(value, context);
+  if (isArray(derefValue)) return derefValue;
+  if (isLambda(derefValue)) return [[lambdaError()]];
+  return [[derefValue]];
+}
+
+/** Converts a value to a single cell, using the top left cell of an array. */
+export function toCell(value: Value, context: EvaluationContext): CellValue {
+  const derefValue = deref(value, context);
+  if (isArray(derefValue)) return derefValue[0]?.[0] ?? null;
+  if (isLambda(derefValue)) return lambdaError();
+  return derefValue;
+}
+
+/** Returns the error for using a LAMBDA as a value. */
+export function lambdaError(): ErrorValue {
+  return createError(
+    ErrorCode.VALUE,
+    "A LAMBDA can only be called, not used as a value"
+  );
+}
+
+/** Creates an array of the given size, filled with a value. */
+export function createMatrix(
+  numRows: number,
+  numCols: number,
+  value: CellValue
+): ArrayValue {
+  return Array.from({ length: numRows }, () => Array(numCols).fill(value));
+}
+
+/**
+ * Returns an error if a function can't create an array of the given size,
+ * because it is empty or has more cells than Sheets allows. Otherwise returns
+ * null.
+ */
+export function checkArraySize(
+  name: string,
+  numRows: number,
+  numCols: number
+): ErrorValue | null {
+  if (numRows < 1 || numCols < 1) {
+    return createError(ErrorCode.VALUE, `${name} expects a positive size`);
+  }
+  if (numRows * numCols > MAX_ARRAY_CELLS) {
+    return createError(
+      ErrorCode.NUM,
+      `${name} can't create more than ${MAX_ARRAY_CELLS.toLocaleString("en-US")} cells`
+    );
+  }
+  return null;
+}
+
+/** Applies a function to each element of an array. */
+export function mapMatrix(
+  array: ArrayValue,
+  fn: (value: CellValue, row: number, col: number) => CellValue
+): ArrayValue {
+  return array.map((values, row) =>
+    values.map((value, col) => fn(value, row, col))
+  );
+}
+
+/** Swaps the rows and columns of an array. */
+export function transpose(array: ArrayValue): ArrayValue {
+  return array[0].map((_, col) => array.map((values) => values[col]));
+}
+
+/** Returns the first error in a list of values, or null if there is none. */
+export function findError(values: CellValue[]): ErrorValue | null {
+  return (values.find((value) => isError(value)) as ErrorValue) ?? null;
+}
+
+/**
+ * Converts the arguments to numbers and passes them to `fn`. Returns the first
+ * error instead if any argument can't be converted. `fn` can return a number
+ * that is not finite, which is converted to `#NUM!`.
+ */
+export function withNumbers(
+  args: CellValue[],
+  fn: (...numbers: number[]) => Value
+): Value {
+  const numbers = [];
+  for (const arg of args) {
+    const number = toNumber(arg);
+    if (isError(number)) return number;
+    numbers.push(number);
+  }
+  const result = fn(...numbers);
+  if (typeof result === "number" && !Number.isFinite(result)) {
+    return createError(ErrorCode.NUM, "The result is not a finite number");
+  }
+  return result;
+}
+
+/**
+ * Collects the numbers in the arguments, as `SUM` does. Numbers, booleans and
+ * numeric strings given directly are converted, but only numbers are counted
+ * in references and arrays. Returns the first error if there is one.
+ */
+export function collectNumbers(
+  args: Value[],
+  context: EvaluationContext
+): number[] | ErrorValue {
+  const numbers = [];
+  for (const arg of args) {
+    // Blanks in references are skipped, so only the cells inside the grid are
+    // read.
+    const clipped = isReference(arg) ? clipReference(context.grid, arg) : arg;
+    if (clipped === null) continue;
+    const value = deref(clipped, context);
+    if (isArray(value)) {
+      for (const cell of value.flat()) {
+        if (isError(cell)) return cell;
+        if (typeof cell === "number") numbers.push(cell);
+      }
+    } else {
+      const number = toNumber(toCell(value, context));
+      if (isError(number)) return number;
+      numbers.push(number);
+    }
+  }
+  return numbers;
+}
+
+/** Returns all of the cells in the arguments, flattened by rows. */
+export function collectCells(
+  args: Value[],
+  context: EvaluationContext
+): CellValue[] {
+  return args.flatMap((arg) => toMatrix(arg, context).flat());
+}
+
+/**
+ * Converts a search pattern with `*` and `?` wildcards to a regular expression
+ * that matches the whole string. `~` escapes a wildcard.
+ */
+export function wildcardToRegExp(pattern: string): RegExp {
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i];
+    if (c === "~" && i + 1 < pattern.length) {
+      source += escapeRegExp(pattern[++i]);
+    } else if (c === "*") {
+      source += "[\\s\\S]*";
+    } else if (c === "?") {
+      source += "[\\s\\S]";
+    } else {
+      source += escapeRegExp(c);
+    }
+  }
+  return new RegExp(`^${source}$`, "i");
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Returns whether two values are equal for a lookup. Strings are compared
+ * case-insensitively, with wildcards if `useWildcards` is true.
+ */
+export function lookupEquals(
+  key: CellValue,
+  value: CellValue,
+  useWildcards = false
+): boolean {
+  if (isError(key) || isError(value)) return false;
+  if (typeof key === "string" && typeof value === "string") {
+    if (useWildcards) return wildcardToRegExp(key).test(value);
+    return key.toUpperCase() === value.toUpperCase();
+  }
+  if (key === null || value === null) return key === value;
+  return typeof key === typeof value && compareValues(key, value) === 0;
+}
+
+const CRITERION_RE = /^(<=|>=|<>|<|>|=)?([\s\S]*)$/;
+
+/**
+ * Creates a predicate for a criterion of `COUNTIF` and similar functions, such
+ * as `">5"`, `"<>apple"` or `"a*"`.
+ */
+export function createCriterion(
+  criterion: CellValue
+): (value: CellValue) => boolean {
+  if (typeof criterion !== "string") {
+    return (value) => lookupEquals(criterion, value);
+  }
+  const [, operator = "", operandText] = CRITERION_RE.exec(criterion)!;
+  const number = parseNumber(operandText);
+  const operand: CellValue = number ?? operandText;
+  if (operator === "" || operator === "=") {
+    if (operandText === "") return (value) => value === null || value === "";
+    return (value) =>
+      typeof operand === "string"
+        ? typeof value === "string" && lookupEquals(operand, value, true)
+        : lookupEquals(operand, value);
+  }
+  if (operator === "<>") {
+    if (operandText === "") return (value) => value !== null && value !== "";
+    return (value) =>
+      typeof operand === "string"
+        ? !(typeof value === "string" && lookupEquals(operand, value, true))
+        : !lookupEquals(operand, value);
+  }
+  return (value) => {
+    // Only values of the same type are compared.
+    if (value === null || isError(value)) return false;
+    if (typeof value !== typeof operand) return false;
+    const cmp = compareValues(value, operand);
+    switch (operator) {
+      case "<":
+        return cmp < 0;
+      case ">":
+        return cmp > 0;
+      case "<=":
+        return cmp <= 0;
+      default:
+        return cmp >= 0;
+    }
+  };
+}
@@ -0,0 +1,148 @@
+import {
+  arrayFunction,
+  collectCells,
+  deref,
+  EvaluationContext,
+  FunctionImplementation,
+  lookupEquals,
+  scalarFunction,
+  toCell,
+  withNumbers,
+} from "./helpers";
+import {
+  CellValue,
+  createError,
+  ErrorCode,
+  ErrorValue,
+  isArray,
+  isError,
+  isLambda,
+  isReference,
+  toBoolean,
+  Value,
+} from "../values";
+
+/** The logical and information functions. */
+export const LOGICAL_FUNCTIONS: Record<string, FunctionImplementation> = {
+  AND: logicalFunction("AND", (booleans) => booleans.every(Boolean)),
+  FALSE: scalarFunction(() => false),
+  IF: scalarFunction((condition, valueIfTrue = true, valueIfFalse = false) => {
+    const boolean = toBoolean(condition);
+    if (isError(boolean)) return boolean;
+    return boolean ? valueIfTrue : valueIfFalse;
+  }),
+  IFERROR: scalarFunction((value, valueIfError = null) =>
+    isError(value) ? valueIfError : value
+  ),
+  IFNA: scalarFunction((value, valueIfNa = null) =>
+    isError(value) && value.code === ErrorCode.NA ? valueIfNa : value
+  ),
+  IFS: scalarFunction((...pairs) => {
+    for (let i = 0; i + 1 < pairs.length; i += 2) {
+      const boolean = toBoolean(pairs[i]);
+      if (isError(boolean)) return boolean;
+      if (boolean) return pairs[i + 1];
+    }
+    return createError(ErrorCode.NA, "No condition in IFS is true");
+  }),
+  ISBLANK: scalarFunction((value) => value === null),
+  ISERR: scalarFunction(
+    (value) => isError(value) && value.code !== ErrorCode.NA
+  ),
+  ISERROR: scalarFunction((value) => isError(value)),
+  ISEVEN: scalarFunction((value) =>
+    withNumbers([value], (number) => Math.trunc(number) % 2 === 0)
+  ),
+  ISLOGICAL: scalarFunction((value) => typeof value === "boolean"),
+  ISNA: scalarFunction(
+    (value) => isError(value) && value.code === ErrorCode.NA
+  ),
+  ISNONTEXT: scalarFunction((value) => typeof value !== "string"),
+  ISNUMBER: scalarFunction((value) => typeof value === "number"),
+  ISODD: scalarFunction((value) =>
+    withNumbers([value], (number) => Math.trunc(number) % 2 !== 0)
+  ),
+  ISREF: arrayFunction(([value]) => isReference(value)),
+  ISTEXT: scalarFunction((value) => typeof value === "string"),
+  N: scalarFunction((value) => {
+    if (typeof value === "number" || isError(value)) return value;
+    return value === true ? 1 : 0;
+  }),
+  NA: scalarFunction(() => createError(ErrorCode.NA, "NA was called")),
+  NOT: scalarFunction((value) => {
+    const boolean = toBoolean(value);
+    return isError(boolean) ? boolean : !boolean;
+  }),
+  OR: logicalFunction("OR", (booleans) => booleans.some(Boolean)),
+  SWITCH: scalarFunction((expression, ...cases) => {
+    if (isError(expression)) return expression;
+    for (let i = 0; i + 1 < cases.length; i += 2) {
+      if (isError(cases[i])) return cases[i];
+      if (lookupEquals(cases[i], expression)) return cases[i + 1];
+    }
+    if (cases.length % 2 === 1) return cases[cases.length - 1];
+    return createError(ErrorCode.NA, "No case in SWITCH matches");
+  }),
+  TRUE: scalarFunction(() => true),
+  TYPE: arrayFunction(([value], context) => {
+    const derefValue = deref(value, context);
+    if (isArray(derefValue)) {
+      return derefValue.length === 1 && derefValue[0].length === 1
+        ? getTypeNumber(derefValue[0][0])
+        : 64;
+    }
+    if (isLambda(derefValue)) return 128;
+    return getTypeNumber(derefValue);
+  }),
+  XOR: logicalFunction(
+    "XOR",
+    (booleans) => booleans.filter(Boolean).length % 2 === 1
+  ),
+};
+
+/**
+ * Defines a function of all the booleans in its arguments, like `AND`. Strings
+ * and blanks in references and arrays are ignored.
+ */
+function logicalFunction(
+  name: string,
+  fn: (booleans: boolean[]) => boolean
+): FunctionImplementation {
+  return arrayFunction((args, context) => {
+    const booleans = collectBooleans(args, context);
+    if (isError(booleans)) return booleans;
+    if (booleans.length === 0) {
+      return createError(ErrorCode.VALUE, `${name} has no logical values`);
+    }
+    return fn(booleans);
+  });
+}
+
+function collectBooleans(
+  args: Value[],
+  context: EvaluationContext
+): boolean[] | ErrorValue {
+  const booleans = [];
+  for (const arg of args) {
+    const value = deref(arg, context);
+    const cells: CellValue[] = isArray(value)
+      ? collectCells([value], context).filter(
+          (cell) => typeof cell !== "string" && cell !== null
+        )
+      : [toCell(value, context)];
+    for (const cell of cells) {
+      const boolean = toBoolean(cell);
+      if (isError(boolean)) return boolean;
+      booleans.push(boolean);
+    }
+  }
+  return booleans;
+}
+
+/** Returns the number that `TYPE` returns for a single value. */
+function getTypeNumber(value: CellValue): number {
+  if (typeof value === "string") return 2;
+  if (typeof value === "boolean") return 4;
+  if (isError(value)) return 16;
+  return 1;
+}
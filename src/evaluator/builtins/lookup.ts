@@ -0,0 +1,308 @@
+import {
+  arrayFunction,
+  FunctionImplementation,
+  liftedFunction,
+  lookupEquals,
+  toCell,
+  toMatrix,
+  transpose,
+  withNumbers,
+} from "./helpers";
+import {
+  ArrayValue,
+  CellValue,
+  compareValues,
+  createError,
+  ErrorCode,
+  isError,
+  isReference,
+  toBoolean,
+  toNumber,
+  Value,
+  ValueKind,
+} from "../values";
+
+/** The lookup and reference functions. */
+export const LOOKUP_FUNCTIONS: Record<string, FunctionImplementation> = {
+  CHOOSE: arrayFunction(([index, ...choices], context) => {
+    const number = toNumber(toCell(index, context));
+    if (isError(number)) return number;
+    const choice = Math.trunc(number);
+    if (choice < 1 || choice > choices.length) {
+      return createError(ErrorCode.VALUE, `CHOOSE has no choice ${choice}`);
+    }
+    return choices[choice - 1];
+  }),
+  COLUMN: arrayFunction(([reference], context) => {
+    if (reference === undefined) return context.anchor.col + 1;
+    if (!isReference(reference)) return referenceError("COLUMN");
+    const cols = [];
+    for (let col = reference.startCol; col <= reference.endCol; col++) {
+      cols.push(col + 1);
+    }
+    return [cols];
+  }),
+  COLUMNS: arrayFunction(
+    ([range], context) => toMatrix(range, context)[0].length
+  ),
+  HLOOKUP: liftedFunction(
+    [1],
+    ([key, range, index, isSorted = true], context) =>
+      lookupInTable(key as CellValue, transpose(toMatrix(range, context)), [
+        index as CellValue,
+        isSorted as CellValue,
+      ])
+  ),
+  INDEX: arrayFunction(([reference, row = 0, col = 0], context) =>
+    withNumbers([toCell(row, context), toCell(col, context)], (row, col) => {
+      row = Math.trunc(row);
+      col = Math.trunc(col);
+      const array = toMatrix(reference, context);
+      if (row < 0 || col < 0 || row > array.length || col > array[0].length) {
+        return createError(ErrorCode.REF, "INDEX is out of range");
+      }
+      const rowRange = row === 0 ? [0, array.length - 1] : [row - 1, row - 1];
+      const colRange =
+        col === 0 ? [0, array[0].length - 1] : [col - 1, col - 1];
+      if (isReference(reference)) {
+        return {
+          kind: ValueKind.REFERENCE,
+          startRow: reference.startRow + rowRange[0],
+          startCol: reference.startCol + colRange[0],
+          endRow: reference.startRow + rowRange[1],
+          endCol: reference.startCol + colRange[1],
+        };
+      }
+      return array
+        .slice(rowRange[0], rowRange[1] + 1)
+        .map((values) => values.slice(colRange[0], colRange[1] + 1));
+    })
+  ),
+  MATCH: liftedFunction([1], ([key, range, matchType = 1], context) => {
+    if (isError(key)) return key;
+    const values = toVector(toMatrix(range, context));
+    if (values === null) {
+      return createError(ErrorCode.NA, "MATCH expects a single row or column");
+    }
+    return withNumbers([matchType as CellValue], (matchType) => {
+      const index = findMatch(key as CellValue, values, Math.sign(matchType));
+      return index === -1 ? notFoundError(key as CellValue) : index + 1;
+    });
+  }),
+  OFFSET: arrayFunction(([reference, rows, cols, height, width], context) => {
+    if (!isReference(reference)) return referenceError("OFFSET");
+    const numbers = [rows, cols, height, width].map((arg) =>
+      arg === undefined ? null : toNumber(toCell(arg, context))
+    );
+    const error = numbers.find(isError);
+    if (error !== undefined) return error;
+    const [rowOffset, colOffset, numRows, numCols] = numbers as Array<
+      number | null
+    >;
+    const startRow = reference.startRow + Math.trunc(rowOffset ?? 0);
+    const startCol = reference.startCol + Math.trunc(colOffset ?? 0);
+    const endRow =
+      startRow +
+      Math.trunc(numRows ?? reference.endRow - reference.startRow + 1) -
+      1;
+    const endCol =
+      startCol +
+      Math.trunc(numCols ?? reference.endCol - reference.startCol + 1) -
+      1;
+    if (
+      startRow < 0 ||
+      startCol < 0 ||
+      endRow < startRow ||
+      endCol < startCol
+    ) {
+      return createError(ErrorCode.REF, "OFFSET is off the grid");
+    }
+    return { kind: ValueKind.REFERENCE, startRow, startCol, endRow, endCol };
+  }),
+  ROW: arrayFunction(([reference], context) => {
+    if (reference === undefined) return context.anchor.row + 1;
+    if (!isReference(reference)) return referenceError("ROW");
+    const rows = [];
+    for (let row = reference.startRow; row <= reference.endRow; row++) {
+      rows.push([row + 1]);
+    }
+    return rows;
+  }),
+  ROWS: arrayFunction(([range], context) => toMatrix(range, context).length),
+  VLOOKUP: liftedFunction(
+    [1],
+    ([key, range, index, isSorted = true], context) =>
+      lookupInTable(key as CellValue, toMatrix(range, context), [
+        index as CellValue,
+        isSorted as CellValue,
+      ])
+  ),
+  XLOOKUP: liftedFunction(
+    [1, 2, 3],
+    (
+      [
+        key,
+        lookupRange,
+        resultRange,
+        missingValue,
+        matchMode = 0,
+        searchMode = 1,
+      ],
+      context
+    ) => {
+      if (isError(key)) return key;
+      const values = toVector(toMatrix(lookupRange, context));
+      if (values === null) {
+        return createError(
+          ErrorCode.VALUE,
+          "XLOOKUP expects a single row or column to search"
+        );
+      }
+      return withNumbers(
+        [matchMode as CellValue, searchMode as CellValue],
+        (matchMode, searchMode) => {
+          const index = findXMatch(
+            key as CellValue,
+            values,
+            matchMode,
+            searchMode < 0
+          );
+          if (index === -1) {
+            return missingValue === undefined
+              ? notFoundError(key as CellValue)
+              : missingValue;
+          }
+          return getResultSlice(
+            toMatrix(resultRange, context),
+            values.length,
+            index
+          );
+        }
+      );
+    }
+  ),
+};
+
+function referenceError(name: string) {
+  return createError(ErrorCode.NA, `${name} expects a cell reference`);
+}
+
+function notFoundError(key: CellValue) {
+  const text = typeof key === "string" ? `"${key}"` : String(key);
+  return createError(ErrorCode.NA, `${text} was not found`);
+}
+
+/** Returns the cells of a single row or column, or null if it is neither. */
+function toVector(array: ArrayValue): CellValue[] | null {
+  if (array.length === 1) return array[0];
+  if (array[0].length === 1) return array.map((values) => values[0]);
+  return null;
+}
+
+/**
+ * Finds the position of a key in a list of values, as `MATCH` does. With a
+ * `matchType` of 0 the key must be equal, with 1 the values are sorted in
+ * ascending order and the last value less than or equal to the key is found,
+ * and with -1 they are sorted in descending order and the last value greater
+ * than or equal to the key is found. Returns -1 if there is no match.
+ */
+function findMatch(
+  key: CellValue,
+  values: CellValue[],
+  matchType: number
+): number {
+  if (matchType === 0) {
+    return values.findIndex((value) => lookupEquals(key, value, true));
+  }
+  if (isError(key)) return -1;
+  let found = -1;
+  for (let i = 0; i < values.length; i++) {
+    const value = values[i];
+    if (value === null || isError(value) || typeof value !== typeof key) {
+      continue;
+    }
+    const cmp = compareValues(value, key) * matchType;
+    if (cmp > 0) break;
+    found = i;
+  }
+  return found;
+}
+
+/**
+ * Finds the position of a key as `XLOOKUP` does. With a `matchMode` of -1 or
+ * 1, the next smaller or larger value is found if there is no exact match, and
+ * with 2 the key can have wildcards.
+ */
+function findXMatch(
+  key: CellValue,
+  values: CellValue[],
+  matchMode: number,
+  reverse: boolean
+): number {
+  const indices = values.map((_, index) => index);
+  if (reverse) indices.reverse();
+  let found = -1;
+  let foundValue: CellValue = null;
+  for (const i of indices) {
+    const value = values[i];
+    if (lookupEquals(key, value, matchMode === 2)) return i;
+    if (matchMode !== -1 && matchMode !== 1) continue;
+    if (key === null || isError(key) || value === null || isError(value)) {
+      continue;
+    }
+    if (typeof value !== typeof key) continue;
+    // Keep the closest value on the side of the key given by `matchMode`.
+    if (
+      Math.sign(compareValues(value, key)) === matchMode &&
+      (foundValue === null ||
+        isError(foundValue) ||
+        compareValues(value, foundValue) * matchMode < 0)
+    ) {
+      found = i;
+      foundValue = value;
+    }
+  }
+  return found;
+}
+
+/**
+ * Returns the row or column of `array` at `index`, along the dimension that
+ * has `length` cells.
+ */
+function getResultSlice(
+  array: ArrayValue,
+  length: number,
+  index: number
+): Value {
+  if (array.length === length) return [array[index]];
+  if (array[0].length === length) {
+    return array.map((values) => [values[index]]);
+  }
+  return createError(
+    ErrorCode.VALUE,
+    "The result range must be the same size as the lookup range"
+  );
+}
+
+/**
+ * Looks up a key in the first column of a table and returns the value in the
+ * column at `index`, as `VLOOKUP` does.
+ */
+function lookupInTable(
+  key: CellValue,
+  table: ArrayValue,
+  [index, isSorted]: CellValue[]
+): Value {
+  if (isError(key)) return key;
+  const colNumber = toNumber(index);
+  if (isError(colNumber)) return colNumber;
+  const sorted = toBoolean(isSorted);
+  if (isError(sorted)) return sorted;
+  const col = Math.trunc(colNumber);
+  if (col < 1 || col > table[0].length) {
+    return createError(ErrorCode.REF, `Index ${col} is out of range`);
+  }
+  const keys = table.map((values) => values[0]);
+  const row = findMatch(key, keys, sorted ? 1 : 0);
+  return row === -1 ? notFoundError(key) : table[row][col - 1];
+}
@@ -0,0 +1,290 @@
+import {
+  arrayFunction,
+  collectCells,
+  collectNumbers,
+  createCriterion,
+  EvaluationContext,
+  FunctionImplementation,
+  liftedFunction,
+  scalarFunction,
+  toCell,
+  toMatrix,
+  withNumbers,
+} from "./helpers";
+import {
+  ArrayValue,
+  CellValue,
+  createError,
+  ErrorCode,
+  ErrorValue,
+  isError,
+  Value,
+} from "../values";
+
+/** The math and aggregation functions. */
+export const MATH_FUNCTIONS: Record<string, FunctionImplementation> = {
+  ABS: scalarFunction((value) => withNumbers([value], Math.abs)),
+  AVERAGE: aggregate((numbers) =>
+    numbers.length === 0
+      ? createError(ErrorCode.DIV_ZERO, "AVERAGE has no numbers to average")
+      : sum(numbers) / numbers.length
+  ),
+  AVERAGEIF: liftedFunction(
+    [0, 2],
+    ([range, criterion, averageRange], context) =>
+      averageOf(
+        filterByCriteria(
+          averageRange ?? range,
+          [range],
+          [toCell(criterion, context)],
+          context
+        )
+      )
+  ),
+  AVERAGEIFS: arrayFunction(([averageRange, ...pairs], context) =>
+    averageOf(filterByCriteriaPairs(averageRange, pairs, context))
+  ),
+  CEILING: scalarFunction((value, factor = 1) =>
+    withNumbers([value, factor], (value, factor) =>
+      factor === 0 ? 0 : Math.ceil(value / factor) * factor
+    )
+  ),
+  COUNT: arrayFunction(
+    (args, context) =>
+      collectCells(args, context).filter((cell) => typeof cell === "number")
+        .length
+  ),
+  COUNTA: arrayFunction(
+    (args, context) =>
+      collectCells(args, context).filter((cell) => cell !== null).length
+  ),
+  COUNTBLANK: arrayFunction(
+    ([range], context) =>
+      collectCells([range], context).filter(
+        (cell) => cell === null || cell === ""
+      ).length
+  ),
+  COUNTIF: liftedFunction([0], ([range, criterion], context) => {
+    const predicate = createCriterion(toCell(criterion, context));
+    return toMatrix(range, context)
+      .flat()
+      .filter((cell) => predicate(cell)).length;
+  }),
+  COUNTIFS: arrayFunction((pairs, context) => {
+    const matches = filterByCriteriaPairs(pairs[0], pairs, context);
+    return isError(matches) ? matches : matches.length;
+  }),
+  EXP: scalarFunction((value) => withNumbers([value], Math.exp)),
+  FLOOR: scalarFunction((value, factor = 1) =>
+    withNumbers([value, factor], (value, factor) =>
+      factor === 0 ? 0 : Math.floor(value / factor) * factor
+    )
+  ),
+  INT: scalarFunction((value) => withNumbers([value], Math.floor)),
+  LN: scalarFunction((value) => withNumbers([value], Math.log)),
+  LOG: scalarFunction((value, base = 10) =>
+    withNumbers(
+      [value, base],
+      (value, base) => Math.log(value) / Math.log(base)
+    )
+  ),
+  LOG10: scalarFunction((value) => withNumbers([value], Math.log10)),
+  MAX: aggregate((numbers) => (numbers.length ? Math.max(...numbers) : 0)),
+  MEDIAN: aggregate((numbers) => {
+    if (numbers.length === 0) {
+      return createError(ErrorCode.NUM, "MEDIAN has no numbers");
+    }
+    const sorted = [...numbers].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2
+      ? sorted[middle]
+      : (sorted[middle - 1] + sorted[middle]) / 2;
+  }),
+  MIN: aggregate((numbers) => (numbers.length ? Math.min(...numbers) : 0)),
+  MOD: scalarFunction((dividend, divisor) =>
+    withNumbers([dividend, divisor], (dividend, divisor) =>
+      divisor === 0
+        ? createError(ErrorCode.DIV_ZERO, "MOD cannot divide by zero")
+        : dividend - divisor * Math.floor(dividend / divisor)
+    )
+  ),
+  PI: scalarFunction(() => Math.PI),
+  POWER: scalarFunction((base, exponent) =>
+    withNumbers([base, exponent], Math.pow)
+  ),
+  PRODUCT: aggregate((numbers) =>
+    numbers.reduce((product, number) => product * number, 1)
+  ),
+  QUOTIENT: scalarFunction((dividend, divisor) =>
+    withNumbers([dividend, divisor], (dividend, divisor) =>
+      divisor === 0
+        ? createError(ErrorCode.DIV_ZERO, "QUOTIENT cannot divide by zero")
+        : Math.trunc(dividend / divisor)
+    )
+  ),
+  RAND: scalarFunction(() => Math.random()),
+  RANDBETWEEN: scalarFunction((low, high) =>
+    withNumbers([low, high], (low, high) => {
+      const min = Math.ceil(low);
+      return min + Math.floor(Math.random() * (Math.floor(high) - min + 1));
+    })
+  ),
+  ROUND: scalarFunction((value, places = 0) =>
+    withNumbers([value, places], (value, places) =>
+      round(value, places, Math.round)
+    )
+  ),
+  ROUNDDOWN: scalarFunction((value, places = 0) =>
+    withNumbers([value, places], (value, places) =>
+      round(value, places, Math.floor)
+    )
+  ),
+  ROUNDUP: scalarFunction((value, places = 0) =>
+    withNumbers([value, places], (value, places) =>
+      round(value, places, Math.ceil)
+    )
+  ),
+  SIGN: scalarFunction((value) => withNumbers([value], Math.sign)),
+  SQRT: scalarFunction((value) => withNumbers([value], Math.sqrt)),
+  SUM: aggregate(sum),
+  SUMIF: liftedFunction([0, 2], ([range, criterion, sumRange], context) => {
+    const matches = filterByCriteria(
+      sumRange ?? range,
+      [range],
+      [toCell(criterion, context)],
+      context
+    );
+    return isError(matches) ? matches : sumOf(matches);
+  }),
+  SUMIFS: arrayFunction(([sumRange, ...pairs], context) => {
+    const matches = filterByCriteriaPairs(sumRange, pairs, context);
+    return isError(matches) ? matches : sumOf(matches);
+  }),
+  SUMPRODUCT: arrayFunction((args, context) => {
+    const arrays = args.map((arg) => toMatrix(arg, context));
+    const [first] = arrays;
+    if (
+      arrays.some(
+        (array) =>
+          array.length !== first.length || array[0].length !== first[0].length
+      )
+    ) {
+      return createError(
+        ErrorCode.VALUE,
+        "SUMPRODUCT has mismatched range sizes"
+      );
+    }
+    let total = 0;
+    for (let row = 0; row < first.length; row++) {
+      for (let col = 0; col < first[0].length; col++) {
+        let product = 1;
+        for (const array of arrays) {
+          const cell = array[row][col];
+          if (isError(cell)) return cell;
+          product *= typeof cell === "number" ? cell : 0;
+        }
+        total += product;
+      }
+    }
+    return total;
+  }),
+  SUMSQ: aggregate((numbers) => sum(numbers.map((number) => number ** 2))),
+  TRUNC: scalarFunction((value, places = 0) =>
+    withNumbers([value, places], (value, places) =>
+      round(value, places, Math.trunc)
+    )
+  ),
+};
+
+/** Defines a function of all the numbers in its arguments, like `SUM`. */
+function aggregate(fn: (numbers: number[]) => Value): FunctionImplementation {
+  return arrayFunction((args, context) => {
+    const numbers = collectNumbers(args, context);
+    return isError(numbers) ? numbers : fn(numbers);
+  });
+}
+
+function sum(numbers: number[]): number {
+  return numbers.reduce((total, number) => total + number, 0);
+}
+
+/** Sums the numbers in a list of cells, ignoring other values. */
+function sumOf(cells: CellValue[]): number {
+  return sum(cells.filter((cell) => typeof cell === "number") as number[]);
+}
+
+function averageOf(cells: CellValue[] | ErrorValue): Value {
+  if (isError(cells)) return cells;
+  const numbers = cells.filter((cell) => typeof cell === "number") as number[];
+  if (numbers.length === 0) {
+    return createError(ErrorCode.DIV_ZERO, "No numbers match the criteria");
+  }
+  return sum(numbers) / numbers.length;
+}
+
+/**
+ * Rounds a number to a number of decimal places. Halves are rounded away from
+ * zero, as in Sheets.
+ */
+function round(
+  value: number,
+  places: number,
+  roundFn: (value: number) => number
+): number {
+  const factor = 10 ** Math.trunc(places);
+  // Remove floating point noise first, so 1.005 * 100 rounds to 101.
+  const scaled = Number((Math.abs(value) * factor).toPrecision(15));
+  return (Math.sign(value) * roundFn(scaled)) / factor;
+}
+
+/**
+ * Returns the cells of `values` where the cells of each range match their
+ * criterion. The ranges must be the same size as `values`.
+ */
+function filterByCriteria(
+  values: Value,
+  ranges: Value[],
+  criteria: CellValue[],
+  context: EvaluationContext
+): CellValue[] | ErrorValue {
+  const valueArray = toMatrix(values, context);
+  const rangeArrays: ArrayValue[] = ranges.map((range) =>
+    toMatrix(range, context)
+  );
+  if (
+    rangeArrays.some(
+      (array) =>
+        array.length !== valueArray.length ||
+        array[0].length !== valueArray[0].length
+    )
+  ) {
+    return createError(ErrorCode.VALUE, "The ranges must be the same size");
+  }
+  const predicates = criteria.map(createCriterion);
+  const matches = [];
+  for (let row = 0; row < valueArray.length; row++) {
+    for (let col = 0; col < valueArray[0].length; col++) {
+      if (
+        predicates.every((predicate, index) =>
+          predicate(rangeArrays[index][row][col])
+        )
+      ) {
+        matches.push(valueArray[row][col]);
+      }
+    }
+  }
+  return matches;
+}
+
+/** Like `filterByCriteria`, for arguments `range1, criterion1, ...`. */
+function filterByCriteriaPairs(
+  values: Value,
+  pairs: Value[],
+  context: EvaluationContext
+): CellValue[] | ErrorValue {
+  const ranges = pairs.filter((_, index) => index % 2 === 0);
+  const criteria = pairs
+    .filter((_, index) => index % 2 === 1)
+    .map((criterion) => toCell(criterion, context));
+  return filterByCriteria(values, ranges, criteria, context);
+}
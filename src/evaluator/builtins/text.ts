@@ -0,0 +1,586 @@
+import {
+  arrayFunction,
+  collectCells,
+  FunctionImplementation,
+  scalarFunction,
+  toCell,
+  wildcardToRegExp,
+  withNumbers,
+} from "./helpers";
+import {
+  CellValue,
+  createError,
+  ErrorCode,
+  ErrorValue,
+  isError,
+  parseNumber,
+  formatNumber,
+  toBoolean,
+  toNumber,
+  toText,
+  Value,
+} from "../values";
+
+// The longest text that REPT can return, as in Google Sheets.
+const MAX_REPT_LENGTH = 32_000;
+
+/** The text functions. */
+export const TEXT_FUNCTIONS: Record<string, FunctionImplementation> = {
+  CHAR: scalarFunction((value) =>
+    withNumbers([value], (code) =>
+      code < 1
+        ? createError(ErrorCode.VALUE, "CHAR expects a positive code")
+        : String.fromCodePoint(Math.trunc(code))
+    )
+  ),
+  CODE: scalarFunction((value) =>
+    withTexts([value], (text) =>
+      text === ""
+        ? createError(ErrorCode.VALUE, "CODE expects a non-empty string")
+        : text.codePointAt(0)!
+    )
+  ),
+  CONCAT: scalarFunction((value1, value2) =>
+    withTexts([value1, value2], (text1, text2) => text1 + text2)
+  ),
+  CONCATENATE: arrayFunction((args, context) =>
+    joinCells("", collectCells(args, context), false)
+  ),
+  EXACT: scalarFunction((value1, value2) =>
+    withTexts([value1, value2], (text1, text2) => text1 === text2)
+  ),
+  FIND: scalarFunction((search, value, start = 1) =>
+    findText(search, value, start, false)
+  ),
+  JOIN: arrayFunction(([delimiter, ...args], context) => {
+    const text = toText(toCell(delimiter, context));
+    if (isError(text)) return text;
+    return joinCells(text, collectCells(args, context), false);
+  }),
+  LEFT: scalarFunction((value, count = 1) =>
+    withTexts([value], (text) =>
+      withNumbers([count], (count) =>
+        count < 0
+          ? createError(ErrorCode.VALUE, "LEFT expects a non-negative count")
+          : text.slice(0, count)
+      )
+    )
+  ),
+  LEN: scalarFunction((value) => withTexts([value], (text) => text.length)),
+  LOWER: scalarFunction((value) =>
+    withTexts([value], (text) => text.toLowerCase())
+  ),
+  MID: scalarFunction((value, start, count) =>
+    withTexts([value], (text) =>
+      withNumbers([start, count], (start, count) =>
+        start < 1 || count < 0
+          ? createError(ErrorCode.VALUE, "MID expects a positive start")
+          : text.slice(start - 1, start - 1 + count)
+      )
+    )
+  ),
+  PROPER: scalarFunction((value) =>
+    withTexts([value], (text) => {
+      // Capitalize every letter that follows something other than a letter.
+      let result = "";
+      let afterLetter = false;
+      for (const c of text) {
+        result += afterLetter ? c.toLowerCase() : c.toUpperCase();
+        afterLetter = c.toLowerCase() !== c.toUpperCase();
+      }
+      return result;
+    })
+  ),
+  REGEXEXTRACT: scalarFunction((value, pattern) =>
+    withRegExp(value, pattern, (text, regExp) => {
+      const match = regExp.exec(text);
+      if (match === null) {
+        return createError(ErrorCode.NA, "The pattern does not match");
+      }
+      return match.length > 1 ? (match[1] ?? "") : match[0];
+    })
+  ),
+  REGEXMATCH: scalarFunction((value, pattern) =>
+    withRegExp(value, pattern, (text, regExp) => regExp.test(text))
+  ),
+  REGEXREPLACE: scalarFunction((value, pattern, replacement) =>
+    withTexts([replacement], (replacement) =>
+      withRegExp(value, pattern, (text, regExp) =>
+        text.replace(new RegExp(regExp.source, regExp.flags + "g"), replacement)
+      )
+    )
+  ),
+  REPLACE: scalarFunction((value, start, count, newText) =>
+    withTexts([value, newText], (text, newText) =>
+      withNumbers([start, count], (start, count) =>
+        start < 1 || count < 0
+          ? createError(ErrorCode.VALUE, "REPLACE expects a positive start")
+          : text.slice(0, start - 1) + newText + text.slice(start - 1 + count)
+      )
+    )
+  ),
+  REPT: scalarFunction((value, count) =>
+    withTexts([value], (text) =>
+      withNumbers([count], (count) =>
+        count < 0
+          ? createError(ErrorCode.VALUE, "REPT expects a non-negative count")
+          : text.length * Math.trunc(count) > MAX_REPT_LENGTH
+            ? createError(
+                ErrorCode.VALUE,
+                `REPT can't return more than ${MAX_REPT_LENGTH.toLocaleString("en-US")} characters`
+              )
+            : text.repeat(Math.trunc(count))
+      )
+    )
+  ),
+  RIGHT: scalarFunction((value, count = 1) =>
+    withTexts([value], (text) =>
+      withNumbers([count], (count) =>
+        count < 0
+          ? createError(ErrorCode.VALUE, "RIGHT expects a non-negative count")
+          : text.slice(Math.max(0, text.length - Math.trunc(count)))
+      )
+    )
+  ),
+  SEARCH: scalarFunction((search, value, start = 1) =>
+    findText(search, value, start, true)
+  ),
+  SPLIT: scalarFunction(
+    (value, delimiter, splitByEach = true, removeEmpty = true) =>
+      withTexts([value, delimiter], (text, delimiter) => {
+        const byEach = toBoolean(splitByEach);
+        if (isError(byEach)) return byEach;
+        const remove = toBoolean(removeEmpty);
+        if (isError(remove)) return remove;
+        if (delimiter === "") return text;
+        const parts = byEach
+          ? text.split(new RegExp(`[${escapeCharClass(delimiter)}]`))
+          : text.split(delimiter);
+        const cells = parts
+          .filter((part) => !remove || part !== "")
+          .map((part) => parseNumber(part) ?? part);
+        return cells.length ? [cells] : null;
+      })
+  ),
+  SUBSTITUTE: scalarFunction((value, search, replacement, occurrence) =>
+    withTexts([value, search, replacement], (text, search, replacement) => {
+      if (search === "") return text;
+      const parts = text.split(search);
+      if (occurrence === undefined) return parts.join(replacement);
+      return withNumbers([occurrence], (occurrence) =>
+        parts.reduce((result, part, index) =>
+          index === occurrence
+            ? result + replacement + part
+            : result + search + part
+        )
+      );
+    })
+  ),
+  T: scalarFunction((value) =>
+    typeof value === "string" || isError(value) ? value : ""
+  ),
+  TEXT: scalarFunction((value, format) =>
+    withTexts([format], (format) => {
+      if (isError(value) || typeof value === "boolean") return toText(value);
+      // Text that isn't a number is returned as it is.
+      const number =
+        typeof value === "string" ? parseNumber(value) : toNumber(value);
+      if (number === null) return value;
+      if (isError(number)) return number;
+      return formatNumberPattern(number, format);
+    })
+  ),
+  TEXTJOIN: arrayFunction(([delimiter, ignoreEmpty, ...args], context) => {
+    const text = toText(toCell(delimiter, context));
+    if (isError(text)) return text;
+    const ignore = toBoolean(toCell(ignoreEmpty, context));
+    if (isError(ignore)) return ignore;
+    return joinCells(text, collectCells(args, context), ignore);
+  }),
+  TRIM: scalarFunction((value) =>
+    withTexts([value], (text) => text.trim().replace(/ +/g, " "))
+  ),
+  UPPER: scalarFunction((value) =>
+    withTexts([value], (text) => text.toUpperCase())
+  ),
+  VALUE: scalarFunction((value) => {
+    if (typeof value === "number" || isError(value)) return value;
+    if (value === null) return 0;
+    const number = parseNumber(String(value));
+    return (
+      number ??
+      createError(ErrorCode.VALUE, `"${value}" cannot be parsed to a number`)
+    );
+  }),
+};
+
+/**
+ * Converts the arguments to text and passes them to `fn`. Returns the first
+ * error instead if any argument is an error.
+ */
+function withTexts(
+  args: CellValue[],
+  fn: (...texts: string[]) => Value
+): Value {
+  const texts = [];
+  for (const arg of args) {
+    const text = toText(arg);
+    if (isError(text)) return text;
+    texts.push(text);
+  }
+  return fn(...texts);
+}
+
+function withRegExp(
+  value: CellValue,
+  pattern: CellValue,
+  fn: (text: string, regExp: RegExp) => Value
+): Value {
+  return withTexts([value, pattern], (text, pattern) => {
+    let regExp;
+    try {
+      regExp = new RegExp(pattern, "u");
+    } catch {
+      return createError(
+        ErrorCode.VALUE,
+        `"${pattern}" is not a valid regular expression`
+      );
+    }
+    return fn(text, regExp);
+  });
+}
+
+/** Joins cells with a delimiter. Errors are returned instead. */
+function joinCells(
+  delimiter: string,
+  cells: CellValue[],
+  ignoreEmpty: boolean
+): Value {
+  const texts = [];
+  for (const cell of cells) {
+    const text = toText(cell);
+    if (isError(text)) return text;
+    if (ignoreEmpty && text === "") continue;
+    texts.push(text);
+  }
+  return texts.join(delimiter);
+}
+
+/**
+ * Returns the 1-based position of `search` in `value`, as `FIND` or `SEARCH`
+ * does. `SEARCH` ignores case and supports wildcards.
+ */
+function findText(
+  search: CellValue,
+  value: CellValue,
+  start: CellValue,
+  isSearch: boolean
+): Value {
+  return withTexts([search, value], (search, text) =>
+    withNumbers([start], (start) => {
+      if (start < 1 || start > text.length + 1) {
+        return createError(ErrorCode.VALUE, "The start is out of range");
+      }
+      let index;
+      if (isSearch) {
+        const source = wildcardToRegExp(search).source.slice(1, -1);
+        const match = new RegExp(source, "i").exec(text.slice(start - 1));
+        index = match === null ? -1 : match.index + start - 1;
+      } else {
+        index = text.indexOf(search, start - 1);
+      }
+      if (index === -1) {
+        return createError(ErrorCode.VALUE, `"${search}" was not found`);
+      }
+      return index + 1;
+    })
+  );
+}
+
+/** A part of a number format section, such as `"$"#,##0.00`. */
+type FormatPart =
+  | { type: FormatPartType.TEXT; text: string }
+  | { type: FormatPartType.DIGIT; placeholder: string }
+  | { type: FormatPartType.DECIMAL }
+  | { type: FormatPartType.EXPONENT; showPlus: boolean };
+
+enum FormatPartType {
+  TEXT = "TEXT",
+  DIGIT = "DIGIT",
+  DECIMAL = "DECIMAL",
+  EXPONENT = "EXPONENT",
+}
+
+const DIGIT_PLACEHOLDERS = "0#?";
+// Letters that are only used in date and time formats.
+const DATE_TIME_RE = /[dmyhs]/i;
+// Characters that are shown as they are without quotes.
+const LITERAL_CHARACTERS = " $-+/():!^&'~{}<>=,%";
+
+/**
+ * Formats a number with a number format pattern for `TEXT`, such as
+ * `#,##0.00`, `0%` or `0.0E+00`. Up to three sections separated by `;` format
+ * positive numbers, negative numbers and zero. Date and time formats, text
+ * placeholders and fractions are not supported.
+ */
+function formatNumberPattern(number: number, pattern: string): Value {
+  const sections = splitFormatSections(pattern);
+  let section = sections[0];
+  let sign = number < 0 ? "-" : "";
+  if (number < 0 && sections.length > 1) {
+    // The negative section shows its own sign, if any.
+    section = sections[1];
+    sign = "";
+  } else if (number === 0 && sections.length > 2) {
+    section = sections[2];
+  }
+  if (section.toUpperCase() === "GENERAL" || Math.abs(number) >= 1e21) {
+    return sign + formatNumber(Math.abs(number));
+  }
+
+  const parts = parseFormatSection(section);
+  if (isError(parts)) return parts;
+  let value = Math.abs(number);
+  for (const part of parts) {
+    if (part.type === FormatPartType.TEXT && part.text === "%") value *= 100;
+  }
+  const intPlaceholders: string[] = [];
+  const fracPlaceholders: string[] = [];
+  const expPlaceholders: string[] = [];
+  let placeholders = intPlaceholders;
+  for (const part of parts) {
+    if (part.type === FormatPartType.DECIMAL) placeholders = fracPlaceholders;
+    if (part.type === FormatPartType.EXPONENT) placeholders = expPlaceholders;
+    if (part.type === FormatPartType.DIGIT) {
+      placeholders.push(part.placeholder);
+    }
+  }
+  // Commas between digits group them by thousands, while commas right after
+  // the integer digits divide by 1000 each.
+  const shape = parts.map(getFormatPartShape).join("");
+  const useGrouping = /[0#?],+[0#?]/.test(shape);
+  const scaleMatch = /(?<=[0#?])(,+)(?=[^0#?,]*(\.|E|$))/.exec(shape);
+
+  let exponent = 0;
+  if (expPlaceholders.length > 0 && value !== 0) {
+    // Keep as many integer digits in the mantissa as there are placeholders.
+    exponent =
+      Math.floor(Math.log10(value)) - Math.max(intPlaceholders.length - 1, 0);
+    value /= 10 ** exponent;
+  } else if (scaleMatch !== null) {
+    value /= 1000 ** scaleMatch[1].length;
+  }
+  let [intText, fracText = ""] = value
+    .toFixed(fracPlaceholders.length)
+    .split(".");
+  if (
+    expPlaceholders.length > 0 &&
+    intText.length > Math.max(intPlaceholders.length, 1)
+  ) {
+    // Rounding added a digit, such as 9.99 becoming 10.0.
+    exponent++;
+    [intText, fracText = ""] = (value / 10)
+      .toFixed(fracPlaceholders.length)
+      .split(".");
+  }
+  if (sign !== "" && /^[0.]*$/.test(intText + fracText)) sign = "";
+
+  const intOutput = fillIntegerDigits(
+    intText === "0" ? "" : intText,
+    intPlaceholders,
+    useGrouping
+  );
+  const fracOutput = fillFractionDigits(fracText, fracPlaceholders);
+  const expOutput = fillIntegerDigits(
+    String(Math.abs(exponent)),
+    expPlaceholders,
+    false
+  );
+  let result = sign;
+  let intIndex = 0;
+  let fracIndex = 0;
+  let expIndex = 0;
+  let inExponent = false;
+  for (const part of parts) {
+    switch (part.type) {
+      case FormatPartType.TEXT:
+        // Grouping and scaling commas are not shown.
+        if (part.text !== ",") result += part.text;
+        break;
+      case FormatPartType.DIGIT:
+        if (inExponent) {
+          result += expOutput[expIndex++];
+        } else if (intIndex < intOutput.length) {
+          result += intOutput[intIndex++];
+        } else {
+          result += fracOutput[fracIndex++];
+        }
+        break;
+      case FormatPartType.DECIMAL:
+        // Without integer placeholders, the integer digits go before the
+        // decimal point.
+        if (intPlaceholders.length === 0 && intText !== "0") {
+          result += intText;
+        }
+        result += ".";
+        intIndex = intOutput.length;
+        break;
+      case FormatPartType.EXPONENT:
+        result += "E" + (exponent < 0 ? "-" : part.showPlus ? "+" : "");
+        intIndex = intOutput.length;
+        inExponent = true;
+        break;
+    }
+  }
+  return result;
+}
+
+/** Returns the characters that a format part stands for in the pattern. */
+function getFormatPartShape(part: FormatPart): string {
+  switch (part.type) {
+    case FormatPartType.TEXT:
+      return part.text;
+    case FormatPartType.DIGIT:
+      return part.placeholder;
+    case FormatPartType.DECIMAL:
+      return ".";
+    case FormatPartType.EXPONENT:
+      return "E";
+  }
+}
+
+/** Splits a number format into its sections, ignoring quoted semicolons. */
+function splitFormatSections(pattern: string): string[] {
+  const sections = [""];
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i];
+    if (c === ";") {
+      sections.push("");
+      continue;
+    }
+    let text = c;
+    if (c === "\\") {
+      text += pattern[++i] ?? "";
+    } else if (c === '"') {
+      const end = pattern.indexOf('"', i + 1);
+      text = pattern.slice(i, end === -1 ? undefined : end + 1);
+      i += text.length - 1;
+    }
+    sections[sections.length - 1] += text;
+  }
+  return sections;
+}
+
+/**
+ * Parses a number format section into its parts. Returns an error if it uses
+ * a format that isn't supported.
+ */
+function parseFormatSection(section: string): FormatPart[] | ErrorValue {
+  const parts: FormatPart[] = [];
+  const addText = (text: string) =>
+    parts.push({ type: FormatPartType.TEXT, text });
+  let hasDecimal = false;
+  for (let i = 0; i < section.length; i++) {
+    const c = section[i];
+    if (c === "\\") {
+      addText(section[++i] ?? "");
+    } else if (c === '"') {
+      const end = section.indexOf('"', i + 1);
+      addText(section.slice(i + 1, end === -1 ? undefined : end));
+      i = end === -1 ? section.length : end;
+    } else if (c === "[") {
+      // Skip colors and conditions, such as `[Red]`.
+      const end = section.indexOf("]", i);
+      i = end === -1 ? section.length : end;
+    } else if (c === "_") {
+      // Leave space for the next character.
+      addText(" ");
+      i++;
+    } else if (c === "*") {
+      // Repeating a character to fill the cell does not apply to text.
+      i++;
+    } else if (DIGIT_PLACEHOLDERS.includes(c)) {
+      parts.push({ type: FormatPartType.DIGIT, placeholder: c });
+    } else if (c === "." && !hasDecimal) {
+      hasDecimal = true;
+      parts.push({ type: FormatPartType.DECIMAL });
+    } else if (
+      (c === "E" || c === "e") &&
+      (section[i + 1] === "+" || section[i + 1] === "-")
+    ) {
+      parts.push({
+        type: FormatPartType.EXPONENT,
+        showPlus: section[i + 1] === "+",
+      });
+      i++;
+    } else if (DATE_TIME_RE.test(c)) {
+      return createError(
+        ErrorCode.VALUE,
+        "TEXT doesn't support date and time formats"
+      );
+    } else if (
+      c === "/" &&
+      DIGIT_PLACEHOLDERS.includes(section.slice(i + 1).trimStart()[0])
+    ) {
+      return createError(ErrorCode.VALUE, "TEXT doesn't support fractions");
+    } else if (LITERAL_CHARACTERS.includes(c)) {
+      addText(c);
+    } else {
+      return createError(
+        ErrorCode.VALUE,
+        `TEXT doesn't support "${c}" in a number format`
+      );
+    }
+  }
+  return parts;
+}
+
+/**
+ * Fills integer digit placeholders from the right. `0` shows a zero and `?` a
+ * space where there is no digit, and the leftmost placeholder takes any extra
+ * digits. Returns the text for each placeholder.
+ */
+function fillIntegerDigits(
+  digits: string,
+  placeholders: string[],
+  useGrouping: boolean
+): string[] {
+  const output = placeholders.map((placeholder, i) => {
+    const position = placeholders.length - 1 - i;
+    const digit = digits[digits.length - 1 - position];
+    if (digit !== undefined) return digit;
+    return placeholder === "0" ? "0" : placeholder === "?" ? " " : "";
+  });
+  if (output.length > 0 && digits.length > placeholders.length) {
+    output[0] = digits.slice(0, digits.length - placeholders.length + 1);
+  }
+  if (!useGrouping) return output;
+  // Add a comma after every digit that is a multiple of three from the right.
+  let position = output.join("").replace(/ /g, "").length;
+  return output.map((text) =>
+    [...text]
+      .map((c) => {
+        if (c === " ") return c;
+        position--;
+        return position > 0 && position % 3 === 0 ? c + "," : c;
+      })
+      .join("")
+  );
+}
+
+/**
+ * Fills fraction digit placeholders from the left. Trailing zeros are removed
+ * for `#` and replaced with a space for `?`.
+ */
+function fillFractionDigits(digits: string, placeholders: string[]): string[] {
+  const output = [...digits];
+  for (let i = placeholders.length - 1; i >= 0; i--) {
+    if (output[i] !== "0" || placeholders[i] === "0") break;
+    output[i] = placeholders[i] === "?" ? " " : "";
+  }
+  return output;
+}
+
+function escapeCharClass(text: string): string {
+  return text.replace(/[\\\]^-]/g, "\\$&");
+}
@@ -0,0 +1,464 @@
+import { ARRAY_FUNCTIONS } from "./builtins/array";
+import {
+  createMatrix,
+  deref,
+  EvaluationContext,
+  FunctionImplementation,
+  getBroadcastCell,
+  lambdaError,
+  mapMatrix,
+  toCell,
+  toMatrix,
+  withNumbers,
+} from "./builtins/helpers";
+import { LOGICAL_FUNCTIONS } from "./builtins/logical";
+import { LOOKUP_FUNCTIONS } from "./builtins/lookup";
+import { MATH_FUNCTIONS } from "./builtins/math";
+import { TEXT_FUNCTIONS } from "./builtins/text";
+import { resolveReference } from "./grid";
+import {
+  ArrayValue,
+  CellValue,
+  compareValues,
+  createError,
+  ErrorCode,
+  ErrorValue,
+  isArray,
+  isError,
+  isLambda,
+  isReference,
+  LambdaValue,
+  toText,
+  Value,
+  ValueKind,
+} from "./values";
+import { getFunctionSignature, matchArguments } from "../functions/catalog";
+import { LOCALE_SEPARATORS } from "../parser/locale";
+import {
+  Expression,
+  ExpressionList,
+  ExpressionType,
+  ParseResult,
+  Term,
+  TermType,
+} from "../parser/parse";
+import { parseRangeReference } from "../parser/reference";
+import { getNameToken } from "../parser/scope";
+import { Token, TokenType } from "../parser/tokens";
+
+/** The result of evaluating a formula: a single value or a spilled array. */
+export type EvaluationResult = CellValue | ArrayValue;
+
+/** The built-in functions that can be evaluated, keyed by uppercase name. */
+const BUILTIN_FUNCTIONS: Record<string, FunctionImplementation> = {
+  ...ARRAY_FUNCTIONS,
+  ...LOGICAL_FUNCTIONS,
+  ...LOOKUP_FUNCTIONS,
+  ...MATH_FUNCTIONS,
+  ...TEXT_FUNCTIONS,
+};
+
+/** The values of the `LET` variables and `LAMBDA` parameters, by uppercase name. */
+type Environment = ReadonlyMap<string, Value>;
+
+/**
+ * Evaluates a parsed formula.
+ *
+ * The formula is evaluated as if it were wrapped in `ARRAYFORMULA`, so
+ * operators and single-value functions are applied to each element of an
+ * array. Errors are returned as error values rather than thrown.
+ */
+export function evaluateFormula(
+  parseResult: ParseResult,
+  context: EvaluationContext
+): EvaluationResult {
+  if (parseResult.expression === null) return null;
+  const value = deref(
+    evaluateExpression(parseResult.expression, new Map(), context),
+    context
+  );
+  if (isLambda(value)) return lambdaError();
+  // A 1x1 array is shown as a single value.
+  if (isArray(value) && value.length === 1 && value[0].length === 1) {
+    return value[0][0];
+  }
+  return value;
+}
+
+function evaluateExpression(
+  expression: Expression,
+  env: Environment,
+  context: EvaluationContext
+): Value {
+  switch (expression.type) {
+    case ExpressionType.TERM:
+      return evaluateTerm(expression.term!, env, context);
+    case ExpressionType.BINARY_OP: {
+      const { left, operatorToken, right } = expression.binaryOp!;
+      return evaluateBinaryOp(
+        operatorToken,
+        evaluateExpression(left, env, context),
+        evaluateExpression(right, env, context),
+        context
+      );
+    }
+    case ExpressionType.RECOVERED:
+      return createError(ErrorCode.ERROR, "The formula has a parse error");
+  }
+}
+
+function evaluateExpressionOrEmpty(
+  expression: Expression | null,
+  env: Environment,
+  context: EvaluationContext
+): Value {
+  // An empty argument is a blank value.
+  return expression === null
+    ? null
+    : evaluateExpression(expression, env, context);
+}
+
+function evaluateTerm(
+  term: Term,
+  env: Environment,
+  context: EvaluationContext
+): Value {
+  switch (term.type) {
+    case TermType.LITERAL:
+      return evaluateLiteral(term.literal!, env, context);
+    case TermType.UNARY_OP: {
+      const { operatorToken, operand } = term.unaryOp!;
+      const value = evaluateTerm(operand, env, context);
+      switch (operatorToken.type) {
+        case TokenType.MINUS:
+          return applyElementwise([value], context, (cell) =>
+            withNumbers([cell], (number) => -number)
+          );
+        case TokenType.AT:
+          // Implicit intersection takes a single value.
+          return toCell(value, context);
+        default:
+          return value;
+      }
+    }
+    case TermType.POSTFIX_OP: {
+      const { operand, operatorToken } = term.postfixOp!;
+      const value = evaluateTerm(operand, env, context);
+      if (operatorToken.type === TokenType.SPILL) return value;
+      return applyElementwise([value], context, (cell) =>
+        withNumbers([cell], (number) => number / 100)
+      );
+    }
+    case TermType.RANGE_OP: {
+      const { left, right } = term.rangeOp!;
+      const start = evaluateTerm(left, env, context);
+      const end = evaluateTerm(right, env, context);
+      if (isError(start)) return start;
+      if (isError(end)) return end;
+      if (!isReference(start) || !isReference(end)) {
+        return createError(
+          ErrorCode.REF,
+          "A range must be between two references"
+        );
+      }
+      return {
+        kind: ValueKind.REFERENCE,
+        startRow: Math.min(start.startRow, end.startRow),
+        startCol: Math.min(start.startCol, end.startCol),
+        endRow: Math.max(start.endRow, end.endRow),
+        endCol: Math.max(start.endCol, end.endCol),
+      };
+    }
+    case TermType.ARRAY_LITERAL:
+      return evaluateArrayLiteral(term.arrayLiteral!.rows, env, context);
+    case TermType.CALL:
+      return evaluateCall(term, env, context);
+    case TermType.PARENTHESIZED:
+      return evaluateExpression(term.parenthesized!.expression, env, context);
+  }
+}
+
+function evaluateLiteral(
+  token: Token,
+  env: Environment,
+  context: EvaluationContext
+): Value {
+  switch (token.type) {
+    case TokenType.NUMBER: {
+      const { decimal } = LOCALE_SEPARATORS[context.locale];
+      const number = Number(token.content.replace(decimal, "."));
+      if (!Number.isFinite(number)) {
+        return createError(ErrorCode.NUM, "The number is too large");
+      }
+      return number;
+    }
+    case TokenType.STRING:
+      return token.content.slice(1, -1).replace(/""/g, '"');
+    case TokenType.LITERAL:
+      return token.content.toUpperCase() === "TRUE";
+    case TokenType.ERROR_LITERAL: {
+      const code = Object.values(ErrorCode).find(
+        (code) => code === token.content.toUpperCase()
+      );
+      return createError(code ?? ErrorCode.ERROR, "Error literal");
+    }
+    case TokenType.IDENTIFIER:
+    case TokenType.RANGE: {
+      const value = env.get(token.content.toUpperCase());
+      if (value !== undefined) return value;
+      const reference =
+        token.type === TokenType.RANGE
+          ? parseRangeReference(token.content, context.anchor)
+          : null;
+      if (reference === null) {
+        return createError(
+          ErrorCode.NAME,
+          `Unknown range name: ${token.content}`
+        );
+      }
+      return resolveReference(context.grid, reference);
+    }
+    case TokenType.STRUCTURED_REFERENCE:
+      return createError(
+        ErrorCode.REF,
+        "Structured references are not supported"
+      );
+    default:
+      return createError(ErrorCode.ERROR, "The formula has a parse error");
+  }
+}
+
+/**
+ * Evaluates an array literal. The elements of each row are joined side by
+ * side, and then the rows are stacked, so elements can be arrays themselves.
+ */
+function evaluateArrayLiteral(
+  rows: ExpressionList[],
+  env: Environment,
+  context: EvaluationContext
+): Value {
+  const result: ArrayValue = [];
+  for (const row of rows) {
+    if (row.expressions.length === 0) {
+      return createError(
+        ErrorCode.VALUE,
+        "The rows of an array literal can't be empty"
+      );
+    }
+    const arrays = row.expressions.map((expression) =>
+      toMatrix(evaluateExpressionOrEmpty(expression, env, context), context)
+    );
+    if (arrays.some((array) => array.length !== arrays[0].length)) {
+      return createError(
+        ErrorCode.VALUE,
+        "The elements of an array literal row must have the same height"
+      );
+    }
+    for (let i = 0; i < arrays[0].length; i++) {
+      result.push(arrays.flatMap((array) => array[i]));
+    }
+  }
+  if (result.length === 0) {
+    return createError(ErrorCode.VALUE, "An array literal can't be empty");
+  }
+  if (result.some((values) => values.length !== result[0].length)) {
+    return createError(
+      ErrorCode.VALUE,
+      "The rows of an array literal must have the same width"
+    );
+  }
+  return result;
+}
+
+function evaluateCall(
+  term: Term,
+  env: Environment,
+  context: EvaluationContext
+): Value {
+  const { functionToken, args } = term.call!;
+  const { expressions } = args;
+  // Bound names can be called if they are a LAMBDA.
+  const bound = env.get(functionToken.content.toUpperCase());
+  if (bound !== undefined) {
+    if (!isLambda(bound)) {
+      return createError(
+        ErrorCode.VALUE,
+        `${functionToken.content} is not a LAMBDA`
+      );
+    }
+    return bound.call(
+      expressions.map((expression) =>
+        evaluateExpressionOrEmpty(expression, env, context)
+      )
+    );
+  }
+
+  const signature = getFunctionSignature(functionToken.content);
+  if (signature === null) {
+    return createError(
+      ErrorCode.NAME,
+      `Unknown function: ${functionToken.content}`
+    );
+  }
+  const { name } = signature;
+  if (matchArguments(signature, expressions.length) === null) {
+    return createError(ErrorCode.NA, `Wrong number of arguments to ${name}`);
+  }
+  if (name === "LET") return evaluateLet(expressions, env, context);
+  if (name === "LAMBDA") return createLambda(expressions, env, context);
+  const implementation = BUILTIN_FUNCTIONS[name];
+  if (implementation === undefined) {
+    return createError(
+      ErrorCode.NAME,
+      `${name} is not supported by the evaluator`
+    );
+  }
+  return implementation.call(
+    expressions.map((expression) =>
+      evaluateExpressionOrEmpty(expression, env, context)
+    ),
+    context
+  );
+}
+
+/** Evaluates `LET(name1, value1, name2, value2, ..., expression)`. */
+function evaluateLet(
+  expressions: Array<Expression | null>,
+  env: Environment,
+  context: EvaluationContext
+): Value {
+  let innerEnv = env;
+  const lastIndex = expressions.length - 1;
+  for (let i = 0; i < lastIndex; i += 2) {
+    const nameToken = getNameToken(expressions[i]);
+    if (nameToken === null) {
+      return createError(ErrorCode.VALUE, "LET expects a name");
+    }
+    // The value is evaluated before its name is bound. Each binding gets a new
+    // environment, so a LAMBDA only sees the names bound before it.
+    const value = evaluateExpressionOrEmpty(
+      expressions[i + 1],
+      innerEnv,
+      context
+    );
+    innerEnv = new Map(innerEnv).set(nameToken.content.toUpperCase(), value);
+  }
+  return evaluateExpressionOrEmpty(expressions[lastIndex], innerEnv, context);
+}
+
+/** Creates the function for `LAMBDA(param1, param2, ..., expression)`. */
+function createLambda(
+  expressions: Array<Expression | null>,
+  env: Environment,
+  context: EvaluationContext
+): Value {
+  const parameters: string[] = [];
+  for (const expression of expressions.slice(0, -1)) {
+    const nameToken = getNameToken(expression);
+    if (nameToken === null) {
+      return createError(ErrorCode.VALUE, "LAMBDA expects parameter names");
+    }
+    parameters.push(nameToken.content);
+  }
+  const body = expressions[expressions.length - 1];
+  const lambda: LambdaValue = {
+    kind: ValueKind.LAMBDA,
+    parameters,
+    body,
+    call(args) {
+      if (args.length !== parameters.length) {
+        return createError(
+          ErrorCode.NA,
+          `The LAMBDA expects ${parameters.length} arguments, but got ${args.length}`
+        );
+      }
+      const innerEnv = new Map(env);
+      parameters.forEach((parameter, index) =>
+        innerEnv.set(parameter.toUpperCase(), args[index])
+      );
+      return evaluateExpressionOrEmpty(body, innerEnv, context);
+    },
+  };
+  return lambda;
+}
+
+function evaluateBinaryOp(
+  operatorToken: Token,
+  left: Value,
+  right: Value,
+  context: EvaluationContext
+): Value {
+  return applyElementwise([left, right], context, (leftCell, rightCell) => {
+    // The left operand's error comes first.
+    if (isError(leftCell)) return leftCell;
+    if (isError(rightCell)) return rightCell;
+    switch (operatorToken.type) {
+      case TokenType.PLUS:
+        return withNumbers([leftCell, rightCell], (a, b) => a + b);
+      case TokenType.MINUS:
+        return withNumbers([leftCell, rightCell], (a, b) => a - b);
+      case TokenType.MULTIPLY:
+        return withNumbers([leftCell, rightCell], (a, b) => a * b);
+      case TokenType.DIVIDE:
+        return withNumbers([leftCell, rightCell], (a, b) =>
+          b === 0 ? createError(ErrorCode.DIV_ZERO, "Division by zero") : a / b
+        );
+      case TokenType.XOR:
+        return withNumbers([leftCell, rightCell], (a, b) =>
+          a === 0 && b < 0
+            ? createError(ErrorCode.DIV_ZERO, "Division by zero")
+            : a ** b
+        );
+      case TokenType.CONCAT:
+        return (toText(leftCell) as string) + (toText(rightCell) as string);
+      default:
+        return compare(operatorToken.type, leftCell, rightCell);
+    }
+  });
+}
+
+function compare(
+  type: TokenType,
+  left: Exclude<CellValue, ErrorValue>,
+  right: Exclude<CellValue, ErrorValue>
+): boolean {
+  const cmp = compareValues(left, right);
+  switch (type) {
+    case TokenType.EQUAL:
+      return cmp === 0;
+    case TokenType.NOT_EQUAL:
+      return cmp !== 0;
+    case TokenType.LESS:
+      return cmp < 0;
+    case TokenType.GREATER:
+      return cmp > 0;
+    case TokenType.LESS_OR_EQUAL:
+      return cmp <= 0;
+    default:
+      return cmp >= 0;
+  }
+}
+
+/**
+ * Applies an operator to single values. If any operand is an array, the
+ * operator is applied to each element, and single rows and columns are
+ * repeated to fill the largest array.
+ */
+function applyElementwise(
+  operands: Value[],
+  context: EvaluationContext,
+  fn: (...cells: CellValue[]) => Value
+): Value {
+  const arrays = operands.map((operand) => toMatrix(operand, context));
+  const numRows = Math.max(...arrays.map((array) => array.length));
+  const numCols = Math.max(...arrays.map((array) => array[0].length));
+  if (numRows === 1 && numCols === 1) {
+    return fn(...arrays.map((array) => array[0][0]));
+  }
+  return mapMatrix(createMatrix(numRows, numCols, null), (_, row, col) =>
+    toCell(
+      fn(...arrays.map((array) => getBroadcastCell(array, row, col))),
+      context
+    )
+  );
+}
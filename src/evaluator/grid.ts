@@ -0,0 +1,168 @@
+import {
+  ArrayValue,
+  CellValue,
+  createError,
+  ErrorCode,
+  ErrorValue,
+  MAX_ARRAY_CELLS,
+  parseNumber,
+  ReferenceValue,
+  ValueKind,
+} from "./values";
+import { RangeReference } from "../parser/reference";
+
+/**
+ * The cells that a formula can refer to. Every sheet name refers to this same
+ * grid, and cells outside of it are blank.
+ */
+export interface Grid {
+  /** The cell values, as a list of rows. */
+  cells: CellValue[][];
+  /** The number of rows. */
+  numRows: number;
+  /** The number of columns. */
+  numCols: number;
+}
+
+/** Creates a grid from the text of each cell, as a user would type it. */
+export function createGrid(rows: string[][]): Grid {
+  const cells = rows.map((row) => row.map(parseCellInput));
+  return {
+    cells,
+    numRows: cells.length,
+    numCols: Math.max(0, ...cells.map((row) => row.length)),
+  };
+}
+
+/**
+ * Parses the text typed into a cell. Numbers, booleans and error codes are
+ * recognized, and anything else is a string.
+ */
+export function parseCellInput(text: string): CellValue {
+  if (text.trim() === "") return null;
+  const number = parseNumber(text);
+  if (number !== null) return number;
+  const upper = text.trim().toUpperCase();
+  if (upper === "TRUE") return true;
+  if (upper === "FALSE") return false;
+  for (const code of Object.values(ErrorCode)) {
+    if (upper === code) return createError(code, "Error in input cell");
+  }
+  return text;
+}
+
+/**
+ * Parses comma-separated values. Fields can be quoted, with `""` for a quote.
+ * Tabs are also accepted as separators, so cells copied from a spreadsheet can
+ * be pasted directly.
+ */
+export function parseCsv(text: string): string[][] {
+  const separator = text.includes("\t") ? "\t" : ",";
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (inQuotes) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += c;
+        i++;
+      } else if (c === '"') {
+        inQuotes = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"' && field === "") {
+      inQuotes = true;
+    } else if (c === separator) {
+      row.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += c;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/** Returns the value of a cell, which is blank if it is outside the grid. */
+export function getCell(grid: Grid, row: number, col: number): CellValue {
+  return grid.cells[row]?.[col] ?? null;
+}
+
+/**
+ * Reads the values of the cells in a reference. Returns an error if the
+ * reference has more cells than an array can.
+ */
+export function readReference(
+  grid: Grid,
+  reference: ReferenceValue
+): ArrayValue | ErrorValue {
+  const { startRow, startCol, endRow, endCol } = reference;
+  const numCols = endCol - startCol + 1;
+  if ((endRow - startRow + 1) * numCols > MAX_ARRAY_CELLS) {
+    return createError(
+      ErrorCode.NUM,
+      `The range has more than ${MAX_ARRAY_CELLS.toLocaleString("en-US")} cells`
+    );
+  }
+  const rows = [];
+  for (let row = startRow; row <= endRow; row++) {
+    // Only the cells inside the grid are read one by one, since the rest are
+    // blank.
+    const values = (grid.cells[row] ?? []).slice(startCol, endCol + 1);
+    rows.push(values.concat(Array(numCols - values.length).fill(null)));
+  }
+  return rows;
+}
+
+/**
+ * Returns the part of a reference that is inside the grid, or null if none of
+ * it is. The cells outside of the grid are all blank.
+ */
+export function clipReference(
+  grid: Grid,
+  reference: ReferenceValue
+): ReferenceValue | null {
+  const endRow = Math.min(reference.endRow, grid.numRows - 1);
+  const endCol = Math.min(reference.endCol, grid.numCols - 1);
+  if (reference.startRow > endRow || reference.startCol > endCol) return null;
+  return { ...reference, endRow, endCol };
+}
+
+/**
+ * Converts a parsed range reference to a reference on the grid. Whole rows and
+ * columns are limited to the size of the grid. Returns an error if a relative
+ * R1C1 reference is above or left of the first cell.
+ */
+export function resolveReference(
+  grid: Grid,
+  reference: RangeReference
+): ReferenceValue | ErrorValue {
+  const { start } = reference;
+  const end = reference.end ?? start;
+  const lastRow = Math.max(0, grid.numRows - 1);
+  const lastCol = Math.max(0, grid.numCols - 1);
+  const rows = [start.row ?? 0, end.row ?? lastRow];
+  const cols = [start.col ?? 0, end.col ?? lastCol];
+  if ([...rows, ...cols].some((index) => index < 0)) {
+    return createError(ErrorCode.REF, "The reference is off the sheet");
+  }
+  return {
+    kind: ValueKind.REFERENCE,
+    startRow: Math.min(...rows),
+    startCol: Math.min(...cols),
+    endRow: Math.max(...rows),
+    endCol: Math.max(...cols),
+  };
+}
@@ -0,0 +1,209 @@
+import { Expression } from "../parser/parse";
+
+/** The error codes that a formula can evaluate to. */
+export enum ErrorCode {
+  NA = "#N/A",
+  REF = "#REF!",
+  DIV_ZERO = "#DIV/0!",
+  VALUE = "#VALUE!",
+  NAME = "#NAME?",
+  NUM = "#NUM!",
+  NULL = "#NULL!",
+  ERROR = "#ERROR!",
+}
+
+/** The most cells that an array can have, as in Google Sheets. */
+export const MAX_ARRAY_CELLS = 10_000_000;
+
+/** The types of values that are not plain cell contents. */
+export enum ValueKind {
+  ERROR = "ERROR",
+  REFERENCE = "REFERENCE",
+  LAMBDA = "LAMBDA",
+}
+
+/** An error value, such as `#N/A`. */
+export interface ErrorValue {
+  kind: ValueKind.ERROR;
+  /** The error code. */
+  code: ErrorCode;
+  /** A description of what went wrong. */
+  message: string;
+}
+
+/**
+ * The contents of a single cell: a number, string, boolean, error, or null if
+ * the cell is blank.
+ */
+export type CellValue = number | string | boolean | ErrorValue | null;
+
+/** A rectangular array of cells, as a list of rows. */
+export type ArrayValue = CellValue[][];
+
+/** A reference to a rectangle of cells on the grid (0-indexed, inclusive). */
+export interface ReferenceValue {
+  kind: ValueKind.REFERENCE;
+  startRow: number;
+  startCol: number;
+  endRow: number;
+  endCol: number;
+}
+
+/** A function created with `LAMBDA`. */
+export interface LambdaValue {
+  kind: ValueKind.LAMBDA;
+  /** The parameter names. */
+  parameters: string[];
+  /** The body of the function. */
+  body: Expression | null;
+  /** Calls the function with the given arguments. */
+  call: (args: Value[]) => Value;
+}
+
+/** Any value that an expression can evaluate to. */
+export type Value = CellValue | ArrayValue | ReferenceValue | LambdaValue;
+
+/** Creates an error value. */
+export function createError(code: ErrorCode, message: string): ErrorValue {
+  return { kind: ValueKind.ERROR, code, message };
+}
+
+/** Returns whether the value is an error. */
+export function isError(value: unknown): value is ErrorValue {
+  return isObjectOfKind(value, ValueKind.ERROR);
+}
+
+/** Returns whether the value is a reference. */
+export function isReference(value: unknown): value is ReferenceValue {
+  return isObjectOfKind(value, ValueKind.REFERENCE);
+}
+
+/** Returns whether the value is a lambda. */
+export function isLambda(value: unknown): value is LambdaValue {
+  return isObjectOfKind(value, ValueKind.LAMBDA);
+}
+
+/** Returns whether the value is an array. */
+export function isArray(value: unknown): value is ArrayValue {
+  return Array.isArray(value);
+}
+
+function isObjectOfKind(value: unknown, kind: ValueKind): boolean {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    (value as { kind?: unknown }).kind === kind
+  );
+}
+
+/**
+ * Converts a cell value to a number, following the Sheets rules: blanks are 0,
+ * booleans are 1 or 0, and strings must look like numbers.
+ */
+export function toNumber(value: CellValue): number | ErrorValue {
+  if (value === null) return 0;
+  if (typeof value === "number") return value;
+  if (typeof value === "boolean") return value ? 1 : 0;
+  if (typeof value === "string") {
+    const number = parseNumber(value);
+    if (number === null) {
+      return createError(
+        ErrorCode.VALUE,
+        `"${value}" cannot be parsed to a number`
+      );
+    }
+    return number;
+  }
+  return value;
+}
+
+/**
+ * Parses a string that looks like a number, such as " 12", "1e3" or "50%".
+ * Returns null if it doesn't.
+ */
+export function parseNumber(text: string): number | null {
+  const match = /^\s*([+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?)\s*(%?)\s*$/i.exec(
+    text
+  );
+  if (match === null) return null;
+  const number = parseFloat(match[1]);
+  return match[4] ? number / 100 : number;
+}
+
+/** Converts a cell value to text, formatting numbers as Sheets does. */
+export function toText(value: CellValue): string | ErrorValue {
+  if (value === null) return "";
+  if (typeof value === "string") return value;
+  if (typeof value === "boolean") return value ? "TRUE" : "FALSE";
+  if (typeof value === "number") return formatNumber(value);
+  return value;
+}
+
+/**
+ * Converts a cell value to a boolean. Numbers are true if nonzero, and only
+ * the strings "TRUE" and "FALSE" are allowed.
+ */
+export function toBoolean(value: CellValue): boolean | ErrorValue {
+  if (value === null) return false;
+  if (typeof value === "boolean") return value;
+  if (typeof value === "number") return value !== 0;
+  if (typeof value === "string") {
+    const upper = value.toUpperCase();
+    if (upper === "TRUE") return true;
+    if (upper === "FALSE") return false;
+    return createError(
+      ErrorCode.VALUE,
+      `"${value}" cannot be parsed to a boolean`
+    );
+  }
+  return value;
+}
+
+/**
+ * Formats a number for display. Floating point noise is rounded off, so
+ * `0.1 + 0.2` is shown as "0.3".
+ */
+export function formatNumber(value: number): string {
+  return String(Number(value.toPrecision(15)));
+}
+
+/** Formats a cell value for display. */
+export function formatCellValue(value: CellValue): string {
+  if (isError(value)) return value.code;
+  return toText(value) as string;
+}
+
+/**
+ * Compares two cell values as the comparison operators do. Numbers sort before
+ * strings, which sort before booleans. Strings are compared case-insensitively,
+ * and blanks are compared as the blank value of the other type.
+ */
+export function compareValues(
+  value1: Exclude<CellValue, ErrorValue>,
+  value2: Exclude<CellValue, ErrorValue>
+): number {
+  if (value1 === null) value1 = blankOfType(value2);
+  if (value2 === null) value2 = blankOfType(value1);
+  const rank1 = typeRank(value1);
+  const rank2 = typeRank(value2);
+  if (rank1 !== rank2) return rank1 - rank2;
+  if (typeof value1 === "string" && typeof value2 === "string") {
+    const upper1 = value1.toUpperCase();
+    const upper2 = value2.toUpperCase();
+    return upper1 < upper2 ? -1 : upper1 > upper2 ? 1 : 0;
+  }
+  return Number(value1) - Number(value2);
+}
+
+function blankOfType(value: CellValue): number | string | boolean {
+  if (typeof value === "string") return "";
+  if (typeof value === "boolean") return false;
+  return 0;
+}
+
+function typeRank(value: CellValue): number {
+  if (typeof value === "string") return 1;
+  if (typeof value === "boolean") return 2;
+  return 0;
+}
@@ -0,0 +1,173 @@
+import {
+  FUNCTION_DEFINITIONS,
+  FunctionDefinition,
+  VOLATILE_FUNCTIONS,
+} from "./definitions";
+import {
+  FunctionCategory,
+  FunctionParameter,
+  FunctionSignature,
+} from "./types";
+
+/** Prefixes that Excel adds to newer function names in saved files. */
+const FUNCTION_NAME_PREFIXES = ["_xlfn.", "_xlws."];
+
+const PARAMETER_RE = /^(\[)?(\()?([a-z0-9_]+)(\.\.\.)?(\))?(\.\.\.)?(\])?$/i;
+
+/** The built-in functions, keyed by uppercase name. */
+export const FUNCTION_CATALOG: ReadonlyMap<string, FunctionSignature> =
+  buildCatalog();
+
+function buildCatalog(): Map<string, FunctionSignature> {
+  const catalog = new Map<string, FunctionSignature>();
+  for (const [category, definitions] of Object.entries(FUNCTION_DEFINITIONS)) {
+    for (const definition of definitions) {
+      const signature = createSignature(
+        category as FunctionCategory,
+        definition
+      );
+      catalog.set(signature.name, signature);
+    }
+  }
+  return catalog;
+}
+
+function createSignature(
+  category: FunctionCategory,
+  [name, parameters, returnType, description]: FunctionDefinition
+): FunctionSignature {
+  return {
+    name,
+    category,
+    parameters: parseParameters(name, parameters),
+    returnType,
+    volatile: VOLATILE_FUNCTIONS.has(name),
+    description,
+  };
+}
+
+/**
+ * Parses a parameter list such as `expression, (case, value)..., [default]`.
+ * See `FunctionDefinition` for the syntax.
+ */
+function parseParameters(name: string, syntax: string): FunctionParameter[] {
+  if (syntax === "") return [];
+  const parameters = [];
+  let inGroup = false;
+  let groupOptional = false;
+  for (const part of syntax.split(",")) {
+    const match = PARAMETER_RE.exec(part.trim());
+    if (match === null) {
+      throw new Error(`Invalid parameter "${part}" for function ${name}`);
+    }
+    const [, lBracket, lParen, paramName, ellipsis, rParen, groupEllipsis] =
+      match;
+    if (lParen) {
+      inGroup = true;
+      groupOptional = !!lBracket;
+    }
+    const repeating = inGroup || !!ellipsis;
+    const optional = inGroup ? groupOptional : !!lBracket;
+    if (rParen) {
+      if (!groupEllipsis) {
+        throw new Error(`Group for function ${name} must be followed by ...`);
+      }
+      inGroup = false;
+    }
+    parameters.push({ name: paramName, optional, repeating });
+  }
+  return parameters;
+}
+
+/**
+ * Returns the signature of a built-in function, or null if there is none.
+ * Function names are case-insensitive, and Excel's `_xlfn.` prefix is ignored.
+ */
+export function getFunctionSignature(name: string): FunctionSignature | null {
+  let upperName = name.toUpperCase();
+  for (const prefix of FUNCTION_NAME_PREFIXES) {
+    if (upperName.startsWith(prefix.toUpperCase())) {
+      upperName = upperName.slice(prefix.length);
+      break;
+    }
+  }
+  return FUNCTION_CATALOG.get(upperName) ?? null;
+}
+
+/** Returns the signatures of all built-in functions in a category. */
+export function getFunctionsInCategory(
+  category: FunctionCategory
+): FunctionSignature[] {
+  return Array.from(FUNCTION_CATALOG.values()).filter(
+    (signature) => signature.category === category
+  );
+}
+
+/**
+ * Returns the minimum and maximum number of arguments a function accepts. The
+ * maximum is `Infinity` if the function has a repeating group.
+ */
+export function getArgumentCountRange(
+  signature: FunctionSignature
+): [number, number] {
+  const group = signature.parameters.filter((param) => param.repeating);
+  const others = signature.parameters.filter((param) => !param.repeating);
+  const required = others.filter((param) => !param.optional).length;
+  if (group.length === 0) {
+    return [required, others.length];
+  }
+  const groupRequired = group[0].optional ? 0 : group.length;
+  return [required + groupRequired, Infinity];
+}
+
+/**
+ * Matches a number of arguments to the parameters of a function. Returns the
+ * parameter for each argument, or null if the function does not accept that
+ * many arguments.
+ *
+ * Arguments fill the parameters before the repeating group first, then as many
+ * whole repetitions of the group as possible, then the parameters after it. So
+ * `IFS` accepts 2 or 4 arguments but not 3.
+ */
+export function matchArguments(
+  signature: FunctionSignature,
+  count: number
+): FunctionParameter[] | null {
+  const { parameters } = signature;
+  const groupStart = parameters.findIndex((param) => param.repeating);
+  if (groupStart === -1) {
+    const required = parameters.filter((param) => !param.optional).length;
+    if (count < required || count > parameters.length) return null;
+    return parameters.slice(0, count);
+  }
+  let groupEnd = groupStart;
+  while (groupEnd < parameters.length && parameters[groupEnd].repeating) {
+    groupEnd++;
+  }
+  const prefix = parameters.slice(0, groupStart);
+  const group = parameters.slice(groupStart, groupEnd);
+  const suffix = parameters.slice(groupEnd);
+  const suffixRequired = suffix.filter((param) => !param.optional).length;
+
+  const numPrefix = Math.min(count, prefix.length);
+  if (prefix.slice(numPrefix).some((param) => !param.optional)) return null;
+  const remaining = count - numPrefix;
+  const repeats = Math.max(
+    0,
+    Math.floor((remaining - suffixRequired) / group.length)
+  );
+  const numSuffix = remaining - repeats * group.length;
+  if (
+    (repeats === 0 && !group[0].optional) ||
+    numSuffix < suffixRequired ||
+    numSuffix > suffix.length
+  ) {
+    return null;
+  }
+  const matched = prefix.slice(0, numPrefix);
+  for (let i = 0; i < repeats; i++) {
+    matched.push(...group);
+  }
+  matched.push(...suffix.slice(0, numSuffix));
+  return matched;
+}
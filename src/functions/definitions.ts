@@ -0,0 +1,2727 @@
+import { FunctionCategory, ValueType } from "./types";
+
+/**
+ * A function definition: name, parameters, return type and description.
+ *
+ * Parameters are written as in the Google Sheets documentation: optional
+ * parameters are wrapped in brackets, and the repeating group is wrapped in
+ * parentheses and followed by `...`, as in `(condition, value)...`. A single
+ * repeating parameter can be written without the parentheses, as in
+ * `value...`. Wrapping the repeating group in brackets allows it to be given
+ * zero times.
+ */
+export type FunctionDefinition = [
+  name: string,
+  parameters: string,
+  returnType: ValueType,
+  description: string,
+];
+
+const { ANY, ARRAY, BOOLEAN, DATE, LAMBDA, NUMBER, REFERENCE, STRING } =
+  ValueType;
+
+/** Functions that are recalculated on every change. */
+export const VOLATILE_FUNCTIONS = new Set([
+  "NOW",
+  "RAND",
+  "RANDARRAY",
+  "RANDBETWEEN",
+  "TODAY",
+]);
+
+/** The built-in Google Sheets functions, grouped by category. */
+export const FUNCTION_DEFINITIONS: Record<
+  FunctionCategory,
+  FunctionDefinition[]
+> = {
+  [FunctionCategory.ARRAY]: [
+    [
+      "ARRAY_CONSTRAIN",
+      "input_range, num_rows, num_cols",
+      ARRAY,
+      "Constrains an array result to a specified size.",
+    ],
+    [
+      "BYCOL",
+      "array_or_range, lambda",
+      ARRAY,
+      "Groups an array by columns and applies a LAMBDA to each column.",
+    ],
+    [
+      "BYROW",
+      "array_or_range, lambda",
+      ARRAY,
+      "Groups an array by rows and applies a LAMBDA to each row.",
+    ],
+    [
+      "CHOOSECOLS",
+      "array, col_num...",
+      ARRAY,
+      "Creates a new array from the selected columns.",
+    ],
+    [
+      "CHOOSEROWS",
+      "array, row_num...",
+      ARRAY,
+      "Creates a new array from the selected rows.",
+    ],
+    [
+      "FLATTEN",
+      "range...",
+      ARRAY,
+      "Flattens all the values from one or more ranges into a single column.",
+    ],
+    [
+      "FREQUENCY",
+      "data, classes",
+      ARRAY,
+      "Calculates the frequency distribution of a one-column array into classes.",
+    ],
+    [
+      "GROWTH",
+      "known_data_y, [known_data_x], [new_data_x], [b]",
+      ARRAY,
+      "Fits an ideal exponential growth trend and predicts further values.",
+    ],
+    [
+      "HSTACK",
+      "range...",
+      ARRAY,
+      "Appends ranges horizontally and in sequence.",
+    ],
+    [
+      "LINEST",
+      "known_data_y, [known_data_x], [calculate_b], [verbose]",
+      ARRAY,
+      "Calculates parameters of the ideal linear trend using least squares.",
+    ],
+    [
+      "LOGEST",
+      "known_data_y, [known_data_x], [b], [verbose]",
+      ARRAY,
+      "Calculates parameters of the ideal exponential growth trend.",
+    ],
+    [
+      "MAKEARRAY",
+      "rows, columns, lambda",
+      ARRAY,
+      "Creates an array of given dimensions with values calculated by a LAMBDA.",
+    ],
+    [
+      "MAP",
+      "array..., lambda",
+      ARRAY,
+      "Maps each value in the arrays to a new value by applying a LAMBDA.",
+    ],
+    [
+      "MDETERM",
+      "square_matrix",
+      NUMBER,
+      "Returns the matrix determinant of a square matrix.",
+    ],
+    [
+      "MINVERSE",
+      "square_matrix",
+      ARRAY,
+      "Returns the multiplicative inverse of a square matrix.",
+    ],
+    [
+      "MMULT",
+      "matrix1, matrix2",
+      ARRAY,
+      "Calculates the matrix product of two matrices.",
+    ],
+    [
+      "REDUCE",
+      "initial_value, array_or_range, lambda",
+      ANY,
+      "Reduces an array to an accumulated result by applying a LAMBDA.",
+    ],
+    [
+      "SCAN",
+      "initial_value, array_or_range, lambda",
+      ARRAY,
+      "Scans an array and produces the intermediate values of a LAMBDA.",
+    ],
+    [
+      "SUMPRODUCT",
+      "array...",
+      NUMBER,
+      "Calculates the sum of the products of corresponding entries in arrays.",
+    ],
+    [
+      "SUMX2MY2",
+      "array_x, array_y",
+      NUMBER,
+      "Calculates the sum of the differences of the squares of values in two arrays.",
+    ],
+    [
+      "SUMX2PY2",
+      "array_x, array_y",
+      NUMBER,
+      "Calculates the sum of the sums of the squares of values in two arrays.",
+    ],
+    [
+      "SUMXMY2",
+      "array_x, array_y",
+      NUMBER,
+      "Calculates the sum of the squares of differences of values in two arrays.",
+    ],
+    [
+      "TOCOL",
+      "array_or_range, [ignore], [scan_by_column]",
+      ARRAY,
+      "Transforms an array or range into a single column.",
+    ],
+    [
+      "TOROW",
+      "array_or_range, [ignore], [scan_by_column]",
+      ARRAY,
+      "Transforms an array or range into a single row.",
+    ],
+    [
+      "TRANSPOSE",
+      "array_or_range",
+      ARRAY,
+      "Transposes the rows and columns of an array or range.",
+    ],
+    [
+      "TREND",
+      "known_data_y, [known_data_x], [new_data_x], [b]",
+      ARRAY,
+      "Fits an ideal linear trend and predicts further values.",
+    ],
+    ["VSTACK", "range...", ARRAY, "Appends ranges vertically and in sequence."],
+    [
+      "WRAPCOLS",
+      "range, wrap_count, [pad_with]",
+      ARRAY,
+      "Wraps a row or column of cells into columns after a number of elements.",
+    ],
+    [
+      "WRAPROWS",
+      "range, wrap_count, [pad_with]",
+      ARRAY,
+      "Wraps a row or column of cells into rows after a number of elements.",
+    ],
+  ],
+  [FunctionCategory.DATABASE]: [
+    [
+      "DAVERAGE",
+      "database, field, criteria",
+      NUMBER,
+      "Returns the average of values selected from a table using a query.",
+    ],
+    [
+      "DCOUNT",
+      "database, field, criteria",
+      NUMBER,
+      "Counts numeric values selected from a table using a query.",
+    ],
+    [
+      "DCOUNTA",
+      "database, field, criteria",
+      NUMBER,
+      "Counts values, including text, selected from a table using a query.",
+    ],
+    [
+      "DGET",
+      "database, field, criteria",
+      ANY,
+      "Returns a single value from a table using a query.",
+    ],
+    [
+      "DMAX",
+      "database, field, criteria",
+      NUMBER,
+      "Returns the maximum value selected from a table using a query.",
+    ],
+    [
+      "DMIN",
+      "database, field, criteria",
+      NUMBER,
+      "Returns the minimum value selected from a table using a query.",
+    ],
+    [
+      "DPRODUCT",
+      "database, field, criteria",
+      NUMBER,
+      "Returns the product of values selected from a table using a query.",
+    ],
+    [
+      "DSTDEV",
+      "database, field, criteria",
+      NUMBER,
+      "Returns the standard deviation of a sample selected using a query.",
+    ],
+    [
+      "DSTDEVP",
+      "database, field, criteria",
+      NUMBER,
+      "Returns the standard deviation of a population selected using a query.",
+    ],
+    [
+      "DSUM",
+      "database, field, criteria",
+      NUMBER,
+      "Returns the sum of values selected from a table using a query.",
+    ],
+    [
+      "DVAR",
+      "database, field, criteria",
+      NUMBER,
+      "Returns the variance of a sample selected using a query.",
+    ],
+    [
+      "DVARP",
+      "database, field, criteria",
+      NUMBER,
+      "Returns the variance of a population selected using a query.",
+    ],
+  ],
+  [FunctionCategory.DATE]: [
+    [
+      "DATE",
+      "year, month, day",
+      DATE,
+      "Converts a year, month and day into a date.",
+    ],
+    [
+      "DATEDIF",
+      "start_date, end_date, unit",
+      NUMBER,
+      "Calculates the number of days, months or years between two dates.",
+    ],
+    [
+      "DATEVALUE",
+      "date_string",
+      NUMBER,
+      "Converts a date string to a date value.",
+    ],
+    ["DAY", "date", NUMBER, "Returns the day of the month of a date."],
+    [
+      "DAYS",
+      "end_date, start_date",
+      NUMBER,
+      "Returns the number of days between two dates.",
+    ],
+    [
+      "DAYS360",
+      "start_date, end_date, [method]",
+      NUMBER,
+      "Returns the days between two dates on a 360-day year.",
+    ],
+    [
+      "EDATE",
+      "start_date, months",
+      DATE,
+      "Returns a date a number of months before or after another date.",
+    ],
+    [
+      "EOMONTH",
+      "start_date, months",
+      DATE,
+      "Returns the last day of a month a number of months from another date.",
+    ],
+    [
+      "EPOCHTODATE",
+      "timestamp, [unit]",
+      DATE,
+      "Converts a Unix epoch timestamp to a date time in UTC.",
+    ],
+    ["HOUR", "time", NUMBER, "Returns the hour component of a time."],
+    [
+      "ISOWEEKNUM",
+      "date",
+      NUMBER,
+      "Returns the ISO week number of the year of a date.",
+    ],
+    ["MINUTE", "time", NUMBER, "Returns the minute component of a time."],
+    ["MONTH", "date", NUMBER, "Returns the month of the year of a date."],
+    [
+      "NETWORKDAYS",
+      "start_date, end_date, [holidays]",
+      NUMBER,
+      "Returns the number of working days between two dates.",
+    ],
+    [
+      "NETWORKDAYS.INTL",
+      "start_date, end_date, [weekend], [holidays]",
+      NUMBER,
+      "Returns the number of working days between two dates, with custom weekends.",
+    ],
+    ["NOW", "", DATE, "Returns the current date and time."],
+    ["SECOND", "time", NUMBER, "Returns the second component of a time."],
+    [
+      "TIME",
+      "hour, minute, second",
+      DATE,
+      "Converts an hour, minute and second into a time.",
+    ],
+    [
+      "TIMEVALUE",
+      "time_string",
+      NUMBER,
+      "Returns the fraction of a day that a time represents.",
+    ],
+    ["TODAY", "", DATE, "Returns the current date."],
+    [
+      "WEEKDAY",
+      "date, [type]",
+      NUMBER,
+      "Returns the day of the week of a date.",
+    ],
+    [
+      "WEEKNUM",
+      "date, [type]",
+      NUMBER,
+      "Returns the week number of the year of a date.",
+    ],
+    [
+      "WORKDAY",
+      "start_date, num_days, [holidays]",
+      DATE,
+      "Returns the date a number of working days after a start date.",
+    ],
+    [
+      "WORKDAY.INTL",
+      "start_date, num_days, [weekend], [holidays]",
+      DATE,
+      "Returns the date a number of working days after a start date, with custom weekends.",
+    ],
+    ["YEAR", "date", NUMBER, "Returns the year of a date."],
+    [
+      "YEARFRAC",
+      "start_date, end_date, [day_count_convention]",
+      NUMBER,
+      "Returns the number of years between two dates, including fractional years.",
+    ],
+  ],
+  [FunctionCategory.ENGINEERING]: [
+    [
+      "BIN2DEC",
+      "signed_binary_number",
+      NUMBER,
+      "Converts a signed binary number to decimal.",
+    ],
+    [
+      "BIN2HEX",
+      "signed_binary_number, [significant_digits]",
+      STRING,
+      "Converts a signed binary number to hexadecimal.",
+    ],
+    [
+      "BIN2OCT",
+      "signed_binary_number, [significant_digits]",
+      STRING,
+      "Converts a signed binary number to octal.",
+    ],
+    [
+      "BITAND",
+      "value1, value2",
+      NUMBER,
+      "Returns the bitwise AND of two numbers.",
+    ],
+    [
+      "BITLSHIFT",
+      "value, shift_amount",
+      NUMBER,
+      "Shifts the bits of a number to the left.",
+    ],
+    [
+      "BITOR",
+      "value1, value2",
+      NUMBER,
+      "Returns the bitwise OR of two numbers.",
+    ],
+    [
+      "BITRSHIFT",
+      "value, shift_amount",
+      NUMBER,
+      "Shifts the bits of a number to the right.",
+    ],
+    [
+      "BITXOR",
+      "value1, value2",
+      NUMBER,
+      "Returns the bitwise XOR of two numbers.",
+    ],
+    [
+      "COMPLEX",
+      "real_part, imaginary_part, [suffix]",
+      STRING,
+      "Creates a complex number from real and imaginary coefficients.",
+    ],
+    [
+      "DEC2BIN",
+      "decimal_number, [significant_digits]",
+      STRING,
+      "Converts a decimal number to signed binary.",
+    ],
+    [
+      "DEC2HEX",
+      "decimal_number, [significant_digits]",
+      STRING,
+      "Converts a decimal number to signed hexadecimal.",
+    ],
+    [
+      "DEC2OCT",
+      "decimal_number, [significant_digits]",
+      STRING,
+      "Converts a decimal number to signed octal.",
+    ],
+    [
+      "DELTA",
+      "number1, [number2]",
+      NUMBER,
+      "Compares two numbers, returning 1 if they are equal.",
+    ],
+    [
+      "ERF",
+      "lower_bound, [upper_bound]",
+      NUMBER,
+      "Returns the Gauss error function integrated between two bounds.",
+    ],
+    [
+      "ERF.PRECISE",
+      "lower_bound, [upper_bound]",
+      NUMBER,
+      "Returns the Gauss error function integrated between two bounds.",
+    ],
+    [
+      "GESTEP",
+      "value, [step]",
+      NUMBER,
+      "Returns 1 if a value is greater than or equal to a step value.",
+    ],
+    [
+      "HEX2BIN",
+      "signed_hexadecimal_number, [significant_digits]",
+      STRING,
+      "Converts a signed hexadecimal number to binary.",
+    ],
+    [
+      "HEX2DEC",
+      "signed_hexadecimal_number",
+      NUMBER,
+      "Converts a signed hexadecimal number to decimal.",
+    ],
+    [
+      "HEX2OCT",
+      "signed_hexadecimal_number, [significant_digits]",
+      STRING,
+      "Converts a signed hexadecimal number to octal.",
+    ],
+    [
+      "IMABS",
+      "number",
+      NUMBER,
+      "Returns the absolute value of a complex number.",
+    ],
+    [
+      "IMAGINARY",
+      "complex_number",
+      NUMBER,
+      "Returns the imaginary coefficient of a complex number.",
+    ],
+    [
+      "IMARGUMENT",
+      "number",
+      NUMBER,
+      "Returns the angle of a complex number in radians.",
+    ],
+    [
+      "IMCONJUGATE",
+      "number",
+      STRING,
+      "Returns the complex conjugate of a number.",
+    ],
+    ["IMCOS", "number", STRING, "Returns the cosine of a complex number."],
+    [
+      "IMCOSH",
+      "number",
+      STRING,
+      "Returns the hyperbolic cosine of a complex number.",
+    ],
+    ["IMCOT", "number", STRING, "Returns the cotangent of a complex number."],
+    [
+      "IMCOTH",
+      "number",
+      STRING,
+      "Returns the hyperbolic cotangent of a complex number.",
+    ],
+    ["IMCSC", "number", STRING, "Returns the cosecant of a complex number."],
+    [
+      "IMCSCH",
+      "number",
+      STRING,
+      "Returns the hyperbolic cosecant of a complex number.",
+    ],
+    [
+      "IMDIV",
+      "dividend, divisor",
+      STRING,
+      "Divides one complex number by another.",
+    ],
+    [
+      "IMEXP",
+      "exponent",
+      STRING,
+      "Returns Euler's number raised to a complex power.",
+    ],
+    [
+      "IMLN",
+      "complex_value",
+      STRING,
+      "Returns the natural logarithm of a complex number.",
+    ],
+    [
+      "IMLOG",
+      "value, base",
+      STRING,
+      "Returns the logarithm of a complex number in a given base.",
+    ],
+    [
+      "IMLOG10",
+      "value",
+      STRING,
+      "Returns the base-10 logarithm of a complex number.",
+    ],
+    [
+      "IMLOG2",
+      "value",
+      STRING,
+      "Returns the base-2 logarithm of a complex number.",
+    ],
+    [
+      "IMPOWER",
+      "complex_base, exponent",
+      STRING,
+      "Returns a complex number raised to a power.",
+    ],
+    [
+      "IMPRODUCT",
+      "factor...",
+      STRING,
+      "Returns the product of complex numbers.",
+    ],
+    [
+      "IMREAL",
+      "complex_number",
+      NUMBER,
+      "Returns the real coefficient of a complex number.",
+    ],
+    ["IMSEC", "number", STRING, "Returns the secant of a complex number."],
+    [
+      "IMSECH",
+      "number",
+      STRING,
+      "Returns the hyperbolic secant of a complex number.",
+    ],
+    ["IMSIN", "number", STRING, "Returns the sine of a complex number."],
+    [
+      "IMSINH",
+      "number",
+      STRING,
+      "Returns the hyperbolic sine of a complex number.",
+    ],
+    [
+      "IMSQRT",
+      "complex_number",
+      STRING,
+      "Returns the square root of a complex number.",
+    ],
+    [
+      "IMSUB",
+      "first_number, second_number",
+      STRING,
+      "Returns the difference between two complex numbers.",
+    ],
+    ["IMSUM", "value...", STRING, "Returns the sum of complex numbers."],
+    ["IMTAN", "number", STRING, "Returns the tangent of a complex number."],
+    [
+      "IMTANH",
+      "number",
+      STRING,
+      "Returns the hyperbolic tangent of a complex number.",
+    ],
+    [
+      "OCT2BIN",
+      "signed_octal_number, [significant_digits]",
+      STRING,
+      "Converts a signed octal number to binary.",
+    ],
+    [
+      "OCT2DEC",
+      "signed_octal_number",
+      NUMBER,
+      "Converts a signed octal number to decimal.",
+    ],
+    [
+      "OCT2HEX",
+      "signed_octal_number, [significant_digits]",
+      STRING,
+      "Converts a signed octal number to hexadecimal.",
+    ],
+  ],
+  [FunctionCategory.FILTER]: [
+    [
+      "FILTER",
+      "range, condition...",
+      ARRAY,
+      "Returns the rows or columns of a range that meet the conditions.",
+    ],
+    [
+      "SORT",
+      "range, [(sort_column, is_ascending)...]",
+      ARRAY,
+      "Sorts the rows of a range by the values in one or more columns.",
+    ],
+    [
+      "SORTN",
+      "range, [n], [display_ties_mode], [(sort_column, is_ascending)...]",
+      ARRAY,
+      "Returns the first n items of a range after sorting.",
+    ],
+    [
+      "UNIQUE",
+      "range, [by_column], [exactly_once]",
+      ARRAY,
+      "Returns the unique rows of a range, discarding duplicates.",
+    ],
+  ],
+  [FunctionCategory.FINANCIAL]: [
+    [
+      "ACCRINT",
+      "issue, first_payment, settlement, rate, redemption, frequency, [day_count_convention]",
+      NUMBER,
+      "Calculates the accrued interest of a security with periodic payments.",
+    ],
+    [
+      "ACCRINTM",
+      "issue, maturity, rate, [redemption], [day_count_convention]",
+      NUMBER,
+      "Calculates the accrued interest of a security paid at maturity.",
+    ],
+    [
+      "AMORLINC",
+      "cost, purchase_date, first_period_end, salvage, period, rate, [basis]",
+      NUMBER,
+      "Returns the depreciation for an accounting period.",
+    ],
+    [
+      "COUPDAYBS",
+      "settlement, maturity, frequency, [day_count_convention]",
+      NUMBER,
+      "Returns the days from the first coupon to the settlement date.",
+    ],
+    [
+      "COUPDAYS",
+      "settlement, maturity, frequency, [day_count_convention]",
+      NUMBER,
+      "Returns the days in the coupon period containing the settlement date.",
+    ],
+    [
+      "COUPDAYSNC",
+      "settlement, maturity, frequency, [day_count_convention]",
+      NUMBER,
+      "Returns the days from the settlement date to the next coupon.",
+    ],
+    [
+      "COUPNCD",
+      "settlement, maturity, frequency, [day_count_convention]",
+      DATE,
+      "Returns the next coupon date after the settlement date.",
+    ],
+    [
+      "COUPNUM",
+      "settlement, maturity, frequency, [day_count_convention]",
+      NUMBER,
+      "Returns the number of coupons between the settlement and maturity dates.",
+    ],
+    [
+      "COUPPCD",
+      "settlement, maturity, frequency, [day_count_convention]",
+      DATE,
+      "Returns the last coupon date before the settlement date.",
+    ],
+    [
+      "CUMIPMT",
+      "rate, number_of_periods, present_value, first_period, last_period, end_or_beginning",
+      NUMBER,
+      "Calculates the cumulative interest over a range of payment periods.",
+    ],
+    [
+      "CUMPRINC",
+      "rate, number_of_periods, present_value, first_period, last_period, end_or_beginning",
+      NUMBER,
+      "Calculates the cumulative principal paid over a range of payment periods.",
+    ],
+    [
+      "DB",
+      "cost, salvage, life, period, [month]",
+      NUMBER,
+      "Calculates depreciation using the fixed-declining balance method.",
+    ],
+    [
+      "DDB",
+      "cost, salvage, life, period, [factor]",
+      NUMBER,
+      "Calculates depreciation using the double-declining balance method.",
+    ],
+    [
+      "DISC",
+      "settlement, maturity, price, redemption, [day_count_convention]",
+      NUMBER,
+      "Calculates the discount rate of a security.",
+    ],
+    [
+      "DOLLARDE",
+      "fractional_price, unit",
+      NUMBER,
+      "Converts a price quoted as a fraction to a decimal value.",
+    ],
+    [
+      "DOLLARFR",
+      "decimal_price, unit",
+      NUMBER,
+      "Converts a decimal price to a price quoted as a fraction.",
+    ],
+    [
+      "DURATION",
+      "settlement, maturity, rate, yield, frequency, [day_count_convention]",
+      NUMBER,
+      "Calculates the Macaulay duration of a security.",
+    ],
+    [
+      "EFFECT",
+      "nominal_rate, periods_per_year",
+      NUMBER,
+      "Calculates the annual effective interest rate.",
+    ],
+    [
+      "FV",
+      "rate, number_of_periods, payment_amount, [present_value], [end_or_beginning]",
+      NUMBER,
+      "Calculates the future value of an annuity investment.",
+    ],
+    [
+      "FVSCHEDULE",
+      "principal, rate_schedule",
+      NUMBER,
+      "Calculates the future value of a principal with a schedule of rates.",
+    ],
+    [
+      "INTRATE",
+      "buy_date, sell_date, buy_price, sell_price, [day_count_convention]",
+      NUMBER,
+      "Calculates the effective interest rate of an investment.",
+    ],
+    [
+      "IPMT",
+      "rate, period, number_of_periods, present_value, [future_value], [end_or_beginning]",
+      NUMBER,
+      "Calculates the interest part of an investment payment.",
+    ],
+    [
+      "IRR",
+      "cashflow_amounts, [rate_guess]",
+      NUMBER,
+      "Calculates the internal rate of return of periodic cash flows.",
+    ],
+    [
+      "ISPMT",
+      "rate, period, number_of_periods, present_value",
+      NUMBER,
+      "Calculates the interest paid during a period of an investment.",
+    ],
+    [
+      "MDURATION",
+      "settlement, maturity, rate, yield, frequency, [day_count_convention]",
+      NUMBER,
+      "Calculates the modified Macaulay duration of a security.",
+    ],
+    [
+      "MIRR",
+      "cashflow_amounts, financing_rate, reinvestment_return_rate",
+      NUMBER,
+      "Calculates the modified internal rate of return of cash flows.",
+    ],
+    [
+      "NOMINAL",
+      "effective_rate, periods_per_year",
+      NUMBER,
+      "Calculates the annual nominal interest rate.",
+    ],
+    [
+      "NPER",
+      "rate, payment_amount, present_value, [future_value], [end_or_beginning]",
+      NUMBER,
+      "Calculates the number of payment periods of an investment.",
+    ],
+    [
+      "NPV",
+      "discount, cashflow...",
+      NUMBER,
+      "Calculates the net present value of periodic cash flows.",
+    ],
+    [
+      "PDURATION",
+      "rate, present_value, future_value",
+      NUMBER,
+      "Returns the periods needed for an investment to reach a value.",
+    ],
+    [
+      "PMT",
+      "rate, number_of_periods, present_value, [future_value], [end_or_beginning]",
+      NUMBER,
+      "Calculates the periodic payment of an annuity investment.",
+    ],
+    [
+      "PPMT",
+      "rate, period, number_of_periods, present_value, [future_value], [end_or_beginning]",
+      NUMBER,
+      "Calculates the principal part of an investment payment.",
+    ],
+    [
+      "PRICE",
+      "settlement, maturity, rate, yield, redemption, frequency, [day_count_convention]",
+      NUMBER,
+      "Calculates the price of a security that pays periodic interest.",
+    ],
+    [
+      "PRICEDISC",
+      "settlement, maturity, discount, redemption, [day_count_convention]",
+      NUMBER,
+      "Calculates the price of a discounted security.",
+    ],
+    [
+      "PRICEMAT",
+      "settlement, maturity, issue, rate, yield, [day_count_convention]",
+      NUMBER,
+      "Calculates the price of a security that pays interest at maturity.",
+    ],
+    [
+      "PV",
+      "rate, number_of_periods, payment_amount, [future_value], [end_or_beginning]",
+      NUMBER,
+      "Calculates the present value of an annuity investment.",
+    ],
+    [
+      "RATE",
+      "number_of_periods, payment_per_period, present_value, [future_value], [end_or_beginning], [rate_guess]",
+      NUMBER,
+      "Calculates the interest rate of an annuity investment.",
+    ],
+    [
+      "RECEIVED",
+      "settlement, maturity, investment, discount, [day_count_convention]",
+      NUMBER,
+      "Calculates the amount received at maturity for a security.",
+    ],
+    [
+      "RRI",
+      "number_of_periods, present_value, future_value",
+      NUMBER,
+      "Returns the interest rate needed for an investment to reach a value.",
+    ],
+    [
+      "SLN",
+      "cost, salvage, life",
+      NUMBER,
+      "Calculates depreciation using the straight-line method.",
+    ],
+    [
+      "SYD",
+      "cost, salvage, life, period",
+      NUMBER,
+      "Calculates depreciation using the sum of years digits method.",
+    ],
+    [
+      "TBILLEQ",
+      "settlement, maturity, discount",
+      NUMBER,
+      "Calculates the equivalent annualized rate of a Treasury bill.",
+    ],
+    [
+      "TBILLPRICE",
+      "settlement, maturity, discount",
+      NUMBER,
+      "Calculates the price of a Treasury bill.",
+    ],
+    [
+      "TBILLYIELD",
+      "settlement, maturity, price",
+      NUMBER,
+      "Calculates the yield of a Treasury bill.",
+    ],
+    [
+      "VDB",
+      "cost, salvage, life, start_period, end_period, [factor], [no_switch]",
+      NUMBER,
+      "Calculates depreciation over a range of periods.",
+    ],
+    [
+      "XIRR",
+      "cashflow_amounts, cashflow_dates, [rate_guess]",
+      NUMBER,
+      "Calculates the internal rate of return of irregular cash flows.",
+    ],
+    [
+      "XNPV",
+      "discount, cashflow_amounts, cashflow_dates",
+      NUMBER,
+      "Calculates the net present value of irregular cash flows.",
+    ],
+    [
+      "YIELD",
+      "settlement, maturity, rate, price, redemption, frequency, [day_count_convention]",
+      NUMBER,
+      "Calculates the annual yield of a security that pays periodic interest.",
+    ],
+    [
+      "YIELDDISC",
+      "settlement, maturity, price, redemption, [day_count_convention]",
+      NUMBER,
+      "Calculates the annual yield of a discounted security.",
+    ],
+    [
+      "YIELDMAT",
+      "settlement, maturity, issue, rate, price, [day_count_convention]",
+      NUMBER,
+      "Calculates the annual yield of a security that pays interest at maturity.",
+    ],
+  ],
+  [FunctionCategory.GOOGLE]: [
+    [
+      "ARRAYFORMULA",
+      "array_formula",
+      ARRAY,
+      "Displays the values of an array formula across multiple cells.",
+    ],
+    [
+      "DETECTLANGUAGE",
+      "text_or_range",
+      STRING,
+      "Identifies the language of text.",
+    ],
+    [
+      "GOOGLEFINANCE",
+      "ticker, [attribute], [start_date], [end_date_or_num_days], [interval]",
+      ANY,
+      "Fetches current or historical securities information from Google Finance.",
+    ],
+    [
+      "GOOGLETRANSLATE",
+      "text, [source_language], [target_language]",
+      STRING,
+      "Translates text from one language into another.",
+    ],
+    [
+      "IMAGE",
+      "url, [mode], [height], [width]",
+      ANY,
+      "Inserts an image into a cell.",
+    ],
+    [
+      "QUERY",
+      "data, query, [headers]",
+      ARRAY,
+      "Runs a Google Visualization API Query Language query across data.",
+    ],
+    [
+      "SPARKLINE",
+      "data, [options]",
+      ANY,
+      "Creates a miniature chart inside a cell.",
+    ],
+  ],
+  [FunctionCategory.INFO]: [
+    ["CELL", "info_type, reference", ANY, "Returns information about a cell."],
+    [
+      "ERROR.TYPE",
+      "reference",
+      NUMBER,
+      "Returns a number for the error value in a cell.",
+    ],
+    [
+      "ISBETWEEN",
+      "value_to_compare, lower_value, upper_value, [lower_value_is_inclusive], [upper_value_is_inclusive]",
+      BOOLEAN,
+      "Checks whether a value is between two other values.",
+    ],
+    ["ISBLANK", "value", BOOLEAN, "Checks whether a cell is empty."],
+    ["ISDATE", "value", BOOLEAN, "Checks whether a value is a date."],
+    [
+      "ISEMAIL",
+      "value",
+      BOOLEAN,
+      "Checks whether a value is a valid email address.",
+    ],
+    [
+      "ISERR",
+      "value",
+      BOOLEAN,
+      "Checks whether a value is an error other than #N/A.",
+    ],
+    ["ISERROR", "value", BOOLEAN, "Checks whether a value is an error."],
+    ["ISFORMULA", "cell", BOOLEAN, "Checks whether a cell contains a formula."],
+    ["ISLOGICAL", "value", BOOLEAN, "Checks whether a value is TRUE or FALSE."],
+    ["ISNA", "value", BOOLEAN, "Checks whether a value is the error #N/A."],
+    ["ISNONTEXT", "value", BOOLEAN, "Checks whether a value is not text."],
+    ["ISNUMBER", "value", BOOLEAN, "Checks whether a value is a number."],
+    [
+      "ISREF",
+      "value",
+      BOOLEAN,
+      "Checks whether a value is a valid cell reference.",
+    ],
+    ["ISTEXT", "value", BOOLEAN, "Checks whether a value is text."],
+    ["N", "value", NUMBER, "Returns the argument as a number."],
+    ["NA", "", ANY, "Returns the error #N/A."],
+    ["TYPE", "value", NUMBER, "Returns a number for the type of a value."],
+  ],
+  [FunctionCategory.LOGICAL]: [
+    [
+      "AND",
+      "logical_expression...",
+      BOOLEAN,
+      "Returns TRUE if all of the arguments are true.",
+    ],
+    ["FALSE", "", BOOLEAN, "Returns the logical value FALSE."],
+    [
+      "IF",
+      "logical_expression, value_if_true, [value_if_false]",
+      ANY,
+      "Returns one value if an expression is true and another if it is false.",
+    ],
+    [
+      "IFERROR",
+      "value, [value_if_error]",
+      ANY,
+      "Returns a fallback value if the first argument is an error.",
+    ],
+    [
+      "IFNA",
+      "value, value_if_na",
+      ANY,
+      "Returns a fallback value if the first argument is #N/A.",
+    ],
+    [
+      "IFS",
+      "(condition, value)...",
+      ANY,
+      "Returns the value for the first condition that is true.",
+    ],
+    [
+      "LAMBDA",
+      "[name...], formula_expression",
+      LAMBDA,
+      "Creates a custom function with named parameters.",
+    ],
+    [
+      "LET",
+      "(name, value_expression)..., formula_expression",
+      ANY,
+      "Assigns names to values and evaluates an expression that uses them.",
+    ],
+    [
+      "NOT",
+      "logical_expression",
+      BOOLEAN,
+      "Returns the opposite of a logical value.",
+    ],
+    [
+      "OR",
+      "logical_expression...",
+      BOOLEAN,
+      "Returns TRUE if any of the arguments are true.",
+    ],
+    [
+      "SWITCH",
+      "expression, (case, value)..., [default]",
+      ANY,
+      "Returns the value for the first case that matches an expression.",
+    ],
+    ["TRUE", "", BOOLEAN, "Returns the logical value TRUE."],
+    [
+      "XOR",
+      "logical_expression...",
+      BOOLEAN,
+      "Returns TRUE if an odd number of the arguments are true.",
+    ],
+  ],
+  [FunctionCategory.LOOKUP]: [
+    [
+      "ADDRESS",
+      "row, column, [absolute_relative_mode], [use_a1_notation], [sheet]",
+      STRING,
+      "Returns a cell reference as a string.",
+    ],
+    [
+      "CHOOSE",
+      "index, choice...",
+      ANY,
+      "Returns an element from a list of choices by index.",
+    ],
+    [
+      "COLUMN",
+      "[cell_reference]",
+      NUMBER,
+      "Returns the column number of a cell.",
+    ],
+    ["COLUMNS", "range", NUMBER, "Returns the number of columns in a range."],
+    [
+      "FORMULATEXT",
+      "cell",
+      STRING,
+      "Returns the formula in a cell as a string.",
+    ],
+    [
+      "GETPIVOTDATA",
+      "value_name, any_pivot_table_cell, [(original_column, pivot_item)...]",
+      ANY,
+      "Extracts an aggregated value from a pivot table.",
+    ],
+    [
+      "HLOOKUP",
+      "search_key, range, index, [is_sorted]",
+      ANY,
+      "Searches across the first row of a range and returns a value below it.",
+    ],
+    [
+      "INDEX",
+      "reference, [row], [column]",
+      REFERENCE,
+      "Returns the content of a cell by row and column offset.",
+    ],
+    [
+      "INDIRECT",
+      "cell_reference_as_string, [is_a1_notation]",
+      REFERENCE,
+      "Returns a cell reference specified by a string.",
+    ],
+    [
+      "LOOKUP",
+      "search_key, search_range_or_array, [result_range]",
+      ANY,
+      "Looks up a value in a row or column and returns the matching result.",
+    ],
+    [
+      "MATCH",
+      "search_key, range, [search_type]",
+      NUMBER,
+      "Returns the relative position of an item in a range.",
+    ],
+    [
+      "OFFSET",
+      "cell_reference, offset_rows, offset_columns, [height], [width]",
+      REFERENCE,
+      "Returns a range reference shifted from a starting cell.",
+    ],
+    ["ROW", "[cell_reference]", NUMBER, "Returns the row number of a cell."],
+    ["ROWS", "range", NUMBER, "Returns the number of rows in a range."],
+    [
+      "VLOOKUP",
+      "search_key, range, index, [is_sorted]",
+      ANY,
+      "Searches down the first column of a range and returns a value beside it.",
+    ],
+    [
+      "XLOOKUP",
+      "search_key, lookup_range, result_range, [missing_value], [match_mode], [search_mode]",
+      ANY,
+      "Returns the values in a result range for the position of a match.",
+    ],
+    [
+      "XMATCH",
+      "search_key, lookup_range, [match_mode], [search_mode]",
+      NUMBER,
+      "Returns the relative position of an item in a range, with match modes.",
+    ],
+  ],
+  [FunctionCategory.MATH]: [
+    ["ABS", "value", NUMBER, "Returns the absolute value of a number."],
+    [
+      "ACOS",
+      "value",
+      NUMBER,
+      "Returns the inverse cosine of a value, in radians.",
+    ],
+    [
+      "ACOSH",
+      "value",
+      NUMBER,
+      "Returns the inverse hyperbolic cosine of a number.",
+    ],
+    [
+      "ACOT",
+      "value",
+      NUMBER,
+      "Returns the inverse cotangent of a value, in radians.",
+    ],
+    [
+      "ACOTH",
+      "value",
+      NUMBER,
+      "Returns the inverse hyperbolic cotangent of a value.",
+    ],
+    [
+      "ASIN",
+      "value",
+      NUMBER,
+      "Returns the inverse sine of a value, in radians.",
+    ],
+    [
+      "ASINH",
+      "value",
+      NUMBER,
+      "Returns the inverse hyperbolic sine of a number.",
+    ],
+    [
+      "ATAN",
+      "value",
+      NUMBER,
+      "Returns the inverse tangent of a value, in radians.",
+    ],
+    [
+      "ATAN2",
+      "x, y",
+      NUMBER,
+      "Returns the angle between the x-axis and a line to a point, in radians.",
+    ],
+    [
+      "ATANH",
+      "value",
+      NUMBER,
+      "Returns the inverse hyperbolic tangent of a number.",
+    ],
+    [
+      "BASE",
+      "value, base, [min_length]",
+      STRING,
+      "Converts a number into a text representation in another base.",
+    ],
+    [
+      "CEILING",
+      "value, [factor]",
+      NUMBER,
+      "Rounds a number up to the nearest multiple of a factor.",
+    ],
+    [
+      "CEILING.MATH",
+      "number, [significance], [mode]",
+      NUMBER,
+      "Rounds a number up to the nearest multiple of a significance.",
+    ],
+    [
+      "CEILING.PRECISE",
+      "number, [significance]",
+      NUMBER,
+      "Rounds a number up to the nearest multiple of a significance.",
+    ],
+    [
+      "COMBIN",
+      "n, k",
+      NUMBER,
+      "Returns the number of ways to choose objects from a pool.",
+    ],
+    [
+      "COMBINA",
+      "n, k",
+      NUMBER,
+      "Returns the number of ways to choose objects from a pool, with replacement.",
+    ],
+    ["COS", "angle", NUMBER, "Returns the cosine of an angle in radians."],
+    [
+      "COSH",
+      "value",
+      NUMBER,
+      "Returns the hyperbolic cosine of a real number.",
+    ],
+    ["COT", "angle", NUMBER, "Returns the cotangent of an angle in radians."],
+    [
+      "COTH",
+      "value",
+      NUMBER,
+      "Returns the hyperbolic cotangent of a real number.",
+    ],
+    [
+      "COUNTBLANK",
+      "range",
+      NUMBER,
+      "Returns the number of empty cells in a range.",
+    ],
+    [
+      "COUNTIF",
+      "range, criterion",
+      NUMBER,
+      "Returns a conditional count across a range.",
+    ],
+    [
+      "COUNTIFS",
+      "(criteria_range, criterion)...",
+      NUMBER,
+      "Returns the count of a range depending on multiple criteria.",
+    ],
+    [
+      "COUNTUNIQUE",
+      "value...",
+      NUMBER,
+      "Counts the number of unique values in a list.",
+    ],
+    ["CSC", "angle", NUMBER, "Returns the cosecant of an angle in radians."],
+    [
+      "CSCH",
+      "value",
+      NUMBER,
+      "Returns the hyperbolic cosecant of a real number.",
+    ],
+    [
+      "DECIMAL",
+      "value, base",
+      NUMBER,
+      "Converts a text representation of a number in another base to decimal.",
+    ],
+    ["DEGREES", "angle", NUMBER, "Converts an angle from radians to degrees."],
+    [
+      "ERFC",
+      "z",
+      NUMBER,
+      "Returns the complementary Gauss error function of a value.",
+    ],
+    [
+      "ERFC.PRECISE",
+      "z",
+      NUMBER,
+      "Returns the complementary Gauss error function of a value.",
+    ],
+    [
+      "EVEN",
+      "value",
+      NUMBER,
+      "Rounds a number up to the nearest even integer.",
+    ],
+    ["EXP", "exponent", NUMBER, "Returns Euler's number raised to a power."],
+    ["FACT", "value", NUMBER, "Returns the factorial of a number."],
+    [
+      "FACTDOUBLE",
+      "value",
+      NUMBER,
+      "Returns the double factorial of a number.",
+    ],
+    [
+      "FLOOR",
+      "value, [factor]",
+      NUMBER,
+      "Rounds a number down to the nearest multiple of a factor.",
+    ],
+    [
+      "FLOOR.MATH",
+      "number, [significance], [mode]",
+      NUMBER,
+      "Rounds a number down to the nearest multiple of a significance.",
+    ],
+    [
+      "FLOOR.PRECISE",
+      "number, [significance]",
+      NUMBER,
+      "Rounds a number down to the nearest multiple of a significance.",
+    ],
+    [
+      "GAMMALN",
+      "value",
+      NUMBER,
+      "Returns the logarithm of the gamma function.",
+    ],
+    [
+      "GAMMALN.PRECISE",
+      "value",
+      NUMBER,
+      "Returns the logarithm of the gamma function.",
+    ],
+    [
+      "GCD",
+      "value...",
+      NUMBER,
+      "Returns the greatest common divisor of one or more integers.",
+    ],
+    ["INT", "value", NUMBER, "Rounds a number down to the nearest integer."],
+    ["ISEVEN", "value", BOOLEAN, "Checks whether a value is even."],
+    [
+      "ISO.CEILING",
+      "number, [significance]",
+      NUMBER,
+      "Rounds a number up to the nearest multiple of a significance.",
+    ],
+    ["ISODD", "value", BOOLEAN, "Checks whether a value is odd."],
+    [
+      "LCM",
+      "value...",
+      NUMBER,
+      "Returns the least common multiple of one or more integers.",
+    ],
+    ["LN", "value", NUMBER, "Returns the logarithm of a number, base e."],
+    [
+      "LOG",
+      "value, [base]",
+      NUMBER,
+      "Returns the logarithm of a number in a given base.",
+    ],
+    ["LOG10", "value", NUMBER, "Returns the logarithm of a number, base 10."],
+    [
+      "MOD",
+      "dividend, divisor",
+      NUMBER,
+      "Returns the remainder after a division.",
+    ],
+    [
+      "MROUND",
+      "value, factor",
+      NUMBER,
+      "Rounds a number to the nearest multiple of a factor.",
+    ],
+    [
+      "MULTINOMIAL",
+      "value...",
+      NUMBER,
+      "Returns the factorial of the sum of values divided by the product of their factorials.",
+    ],
+    ["MUNIT", "dimension", ARRAY, "Returns a unit matrix of a given size."],
+    ["ODD", "value", NUMBER, "Rounds a number up to the nearest odd integer."],
+    ["PI", "", NUMBER, "Returns the value of Pi."],
+    ["POWER", "base, exponent", NUMBER, "Returns a number raised to a power."],
+    [
+      "PRODUCT",
+      "factor...",
+      NUMBER,
+      "Returns the product of a series of numbers.",
+    ],
+    [
+      "QUOTIENT",
+      "dividend, divisor",
+      NUMBER,
+      "Returns the integer part of a division.",
+    ],
+    ["RADIANS", "angle", NUMBER, "Converts an angle from degrees to radians."],
+    [
+      "RAND",
+      "",
+      NUMBER,
+      "Returns a random number between 0 inclusive and 1 exclusive.",
+    ],
+    [
+      "RANDARRAY",
+      "[rows], [columns]",
+      ARRAY,
+      "Returns an array of random numbers between 0 and 1.",
+    ],
+    [
+      "RANDBETWEEN",
+      "low, high",
+      NUMBER,
+      "Returns a random integer between two values, inclusive.",
+    ],
+    [
+      "ROUND",
+      "value, [places]",
+      NUMBER,
+      "Rounds a number to a number of decimal places.",
+    ],
+    [
+      "ROUNDDOWN",
+      "value, [places]",
+      NUMBER,
+      "Rounds a number down to a number of decimal places.",
+    ],
+    [
+      "ROUNDUP",
+      "value, [places]",
+      NUMBER,
+      "Rounds a number up to a number of decimal places.",
+    ],
+    ["SEC", "angle", NUMBER, "Returns the secant of an angle in radians."],
+    ["SECH", "value", NUMBER, "Returns the hyperbolic secant of an angle."],
+    [
+      "SEQUENCE",
+      "rows, [columns], [start], [step]",
+      ARRAY,
+      "Returns an array of sequential numbers.",
+    ],
+    ["SERIESSUM", "x, n, m, a", NUMBER, "Returns the sum of a power series."],
+    ["SIGN", "value", NUMBER, "Returns -1, 0 or 1 for the sign of a number."],
+    ["SIN", "angle", NUMBER, "Returns the sine of an angle in radians."],
+    ["SINH", "value", NUMBER, "Returns the hyperbolic sine of a real number."],
+    ["SQRT", "value", NUMBER, "Returns the positive square root of a number."],
+    [
+      "SQRTPI",
+      "value",
+      NUMBER,
+      "Returns the positive square root of Pi times a number.",
+    ],
+    [
+      "SUBTOTAL",
+      "function_code, range...",
+      NUMBER,
+      "Returns a subtotal for a range using an aggregation function.",
+    ],
+    [
+      "SUM",
+      "value...",
+      NUMBER,
+      "Returns the sum of a series of numbers or cells.",
+    ],
+    [
+      "SUMIF",
+      "range, criterion, [sum_range]",
+      NUMBER,
+      "Returns a conditional sum across a range.",
+    ],
+    [
+      "SUMIFS",
+      "sum_range, (criteria_range, criterion)...",
+      NUMBER,
+      "Returns the sum of a range depending on multiple criteria.",
+    ],
+    [
+      "SUMSQ",
+      "value...",
+      NUMBER,
+      "Returns the sum of the squares of a series of numbers or cells.",
+    ],
+    ["TAN", "angle", NUMBER, "Returns the tangent of an angle in radians."],
+    [
+      "TANH",
+      "value",
+      NUMBER,
+      "Returns the hyperbolic tangent of a real number.",
+    ],
+    [
+      "TRUNC",
+      "value, [places]",
+      NUMBER,
+      "Truncates a number to a number of significant digits.",
+    ],
+  ],
+  [FunctionCategory.OPERATOR]: [
+    [
+      "ADD",
+      "value1, value2",
+      NUMBER,
+      "Returns the sum of two numbers. Equivalent to the `+` operator.",
+    ],
+    [
+      "CONCAT",
+      "value1, value2",
+      STRING,
+      "Returns the concatenation of two values. Equivalent to the `&` operator.",
+    ],
+    [
+      "DIVIDE",
+      "dividend, divisor",
+      NUMBER,
+      "Returns one number divided by another. Equivalent to the `/` operator.",
+    ],
+    [
+      "EQ",
+      "value1, value2",
+      BOOLEAN,
+      "Returns TRUE if two values are equal. Equivalent to the `=` operator.",
+    ],
+    [
+      "GT",
+      "value1, value2",
+      BOOLEAN,
+      "Returns TRUE if the first value is greater. Equivalent to the `>` operator.",
+    ],
+    [
+      "GTE",
+      "value1, value2",
+      BOOLEAN,
+      "Returns TRUE if the first value is greater or equal. Equivalent to the `>=` operator.",
+    ],
+    [
+      "LT",
+      "value1, value2",
+      BOOLEAN,
+      "Returns TRUE if the first value is less. Equivalent to the `<` operator.",
+    ],
+    [
+      "LTE",
+      "value1, value2",
+      BOOLEAN,
+      "Returns TRUE if the first value is less or equal. Equivalent to the `<=` operator.",
+    ],
+    [
+      "MINUS",
+      "value1, value2",
+      NUMBER,
+      "Returns the difference of two numbers. Equivalent to the `-` operator.",
+    ],
+    [
+      "MULTIPLY",
+      "factor1, factor2",
+      NUMBER,
+      "Returns the product of two numbers. Equivalent to the `*` operator.",
+    ],
+    [
+      "NE",
+      "value1, value2",
+      BOOLEAN,
+      "Returns TRUE if two values are not equal. Equivalent to the `<>` operator.",
+    ],
+    [
+      "POW",
+      "base, exponent",
+      NUMBER,
+      "Returns a number raised to a power. Equivalent to the `^` operator.",
+    ],
+    ["UMINUS", "value", NUMBER, "Returns a number with its sign reversed."],
+    [
+      "UNARY_PERCENT",
+      "percentage",
+      NUMBER,
+      "Returns a value interpreted as a percentage.",
+    ],
+    ["UPLUS", "value", ANY, "Returns a value unchanged."],
+  ],
+  [FunctionCategory.PARSER]: [
+    [
+      "CONVERT",
+      "value, start_unit, end_unit",
+      NUMBER,
+      "Converts a numeric value to a different unit of measure.",
+    ],
+    ["TO_DATE", "value", DATE, "Converts a number to a date."],
+    ["TO_DOLLARS", "value", NUMBER, "Converts a number to a dollar value."],
+    ["TO_PERCENT", "value", NUMBER, "Converts a number to a percentage."],
+    [
+      "TO_PURE_NUMBER",
+      "value",
+      NUMBER,
+      "Converts a date, time, percentage or currency to a pure number.",
+    ],
+    ["TO_TEXT", "value", STRING, "Converts a numeric value to a text value."],
+  ],
+  [FunctionCategory.STATISTICAL]: [
+    [
+      "AVEDEV",
+      "value...",
+      NUMBER,
+      "Returns the average of the deviations of data from its mean.",
+    ],
+    [
+      "AVERAGE",
+      "value...",
+      NUMBER,
+      "Returns the numerical average value in a dataset, ignoring text.",
+    ],
+    [
+      "AVERAGE.WEIGHTED",
+      "(values, weights)...",
+      NUMBER,
+      "Returns the weighted average of a set of values.",
+    ],
+    [
+      "AVERAGEA",
+      "value...",
+      NUMBER,
+      "Returns the numerical average value in a dataset.",
+    ],
+    [
+      "AVERAGEIF",
+      "criteria_range, criterion, [average_range]",
+      NUMBER,
+      "Returns the average of a range depending on a criterion.",
+    ],
+    [
+      "AVERAGEIFS",
+      "average_range, (criteria_range, criterion)...",
+      NUMBER,
+      "Returns the average of a range depending on multiple criteria.",
+    ],
+    [
+      "BETA.DIST",
+      "value, alpha, beta, cumulative, [lower_bound], [upper_bound]",
+      NUMBER,
+      "Returns the probability of a value in a beta distribution.",
+    ],
+    [
+      "BETA.INV",
+      "probability, alpha, beta, [lower_bound], [upper_bound]",
+      NUMBER,
+      "Returns the inverse of the beta distribution.",
+    ],
+    [
+      "BETADIST",
+      "value, alpha, beta, [lower_bound], [upper_bound]",
+      NUMBER,
+      "Returns the probability of a value in a beta distribution.",
+    ],
+    [
+      "BETAINV",
+      "probability, alpha, beta, [lower_bound], [upper_bound]",
+      NUMBER,
+      "Returns the inverse of the beta distribution.",
+    ],
+    [
+      "BINOM.DIST",
+      "num_successes, num_trials, prob_success, cumulative",
+      NUMBER,
+      "Returns the binomial distribution probability.",
+    ],
+    [
+      "BINOM.INV",
+      "num_trials, prob_success, target_prob",
+      NUMBER,
+      "Returns the smallest value for which the binomial distribution reaches a criterion.",
+    ],
+    [
+      "BINOMDIST",
+      "num_successes, num_trials, prob_success, cumulative",
+      NUMBER,
+      "Returns the binomial distribution probability.",
+    ],
+    [
+      "CHIDIST",
+      "x, degrees_freedom",
+      NUMBER,
+      "Returns the right-tailed chi-squared distribution.",
+    ],
+    [
+      "CHIINV",
+      "probability, degrees_freedom",
+      NUMBER,
+      "Returns the inverse of the right-tailed chi-squared distribution.",
+    ],
+    [
+      "CHISQ.DIST",
+      "x, degrees_freedom, cumulative",
+      NUMBER,
+      "Returns the left-tailed chi-squared distribution.",
+    ],
+    [
+      "CHISQ.DIST.RT",
+      "x, degrees_freedom",
+      NUMBER,
+      "Returns the right-tailed chi-squared distribution.",
+    ],
+    [
+      "CHISQ.INV",
+      "probability, degrees_freedom",
+      NUMBER,
+      "Returns the inverse of the left-tailed chi-squared distribution.",
+    ],
+    [
+      "CHISQ.INV.RT",
+      "probability, degrees_freedom",
+      NUMBER,
+      "Returns the inverse of the right-tailed chi-squared distribution.",
+    ],
+    [
+      "CHISQ.TEST",
+      "observed_range, expected_range",
+      NUMBER,
+      "Returns the probability from Pearson's chi-squared test.",
+    ],
+    [
+      "CHITEST",
+      "observed_range, expected_range",
+      NUMBER,
+      "Returns the probability from Pearson's chi-squared test.",
+    ],
+    [
+      "CONFIDENCE",
+      "alpha, standard_deviation, pop_size",
+      NUMBER,
+      "Returns half the width of a normal distribution confidence interval.",
+    ],
+    [
+      "CONFIDENCE.NORM",
+      "alpha, standard_deviation, pop_size",
+      NUMBER,
+      "Returns half the width of a normal distribution confidence interval.",
+    ],
+    [
+      "CONFIDENCE.T",
+      "alpha, standard_deviation, size",
+      NUMBER,
+      "Returns half the width of a Student's t-distribution confidence interval.",
+    ],
+    [
+      "CORREL",
+      "data_y, data_x",
+      NUMBER,
+      "Returns the Pearson correlation coefficient of a dataset.",
+    ],
+    [
+      "COUNT",
+      "value...",
+      NUMBER,
+      "Returns the number of numeric values in a dataset.",
+    ],
+    [
+      "COUNTA",
+      "value...",
+      NUMBER,
+      "Returns the number of values in a dataset.",
+    ],
+    ["COVAR", "data_y, data_x", NUMBER, "Returns the covariance of a dataset."],
+    [
+      "COVARIANCE.P",
+      "data_y, data_x",
+      NUMBER,
+      "Returns the covariance of a population.",
+    ],
+    [
+      "COVARIANCE.S",
+      "data_y, data_x",
+      NUMBER,
+      "Returns the covariance of a sample.",
+    ],
+    [
+      "CRITBINOM",
+      "num_trials, prob_success, target_prob",
+      NUMBER,
+      "Returns the smallest value for which the binomial distribution reaches a criterion.",
+    ],
+    [
+      "DEVSQ",
+      "value...",
+      NUMBER,
+      "Returns the sum of squares of deviations from the sample mean.",
+    ],
+    [
+      "EXPON.DIST",
+      "x, lambda, cumulative",
+      NUMBER,
+      "Returns the exponential distribution function.",
+    ],
+    [
+      "EXPONDIST",
+      "x, lambda, cumulative",
+      NUMBER,
+      "Returns the exponential distribution function.",
+    ],
+    [
+      "F.DIST",
+      "x, degrees_freedom1, degrees_freedom2, cumulative",
+      NUMBER,
+      "Returns the left-tailed F probability distribution.",
+    ],
+    [
+      "F.DIST.RT",
+      "x, degrees_freedom1, degrees_freedom2",
+      NUMBER,
+      "Returns the right-tailed F probability distribution.",
+    ],
+    [
+      "F.INV",
+      "probability, degrees_freedom1, degrees_freedom2",
+      NUMBER,
+      "Returns the inverse of the left-tailed F probability distribution.",
+    ],
+    [
+      "F.INV.RT",
+      "probability, degrees_freedom1, degrees_freedom2",
+      NUMBER,
+      "Returns the inverse of the right-tailed F probability distribution.",
+    ],
+    [
+      "F.TEST",
+      "range1, range2",
+      NUMBER,
+      "Returns the probability from an F-test.",
+    ],
+    [
+      "FDIST",
+      "x, degrees_freedom1, degrees_freedom2",
+      NUMBER,
+      "Returns the right-tailed F probability distribution.",
+    ],
+    [
+      "FINV",
+      "probability, degrees_freedom1, degrees_freedom2",
+      NUMBER,
+      "Returns the inverse of the right-tailed F probability distribution.",
+    ],
+    [
+      "FISHER",
+      "value",
+      NUMBER,
+      "Returns the Fisher transformation of a value.",
+    ],
+    [
+      "FISHERINV",
+      "value",
+      NUMBER,
+      "Returns the inverse Fisher transformation of a value.",
+    ],
+    [
+      "FORECAST",
+      "x, data_y, data_x",
+      NUMBER,
+      "Predicts a future value using linear regression.",
+    ],
+    [
+      "FORECAST.LINEAR",
+      "x, data_y, data_x",
+      NUMBER,
+      "Predicts a future value using linear regression.",
+    ],
+    [
+      "FTEST",
+      "range1, range2",
+      NUMBER,
+      "Returns the probability from an F-test.",
+    ],
+    ["GAMMA", "number", NUMBER, "Returns the gamma function of a value."],
+    [
+      "GAMMA.DIST",
+      "x, alpha, beta, cumulative",
+      NUMBER,
+      "Returns the gamma distribution.",
+    ],
+    [
+      "GAMMA.INV",
+      "probability, alpha, beta",
+      NUMBER,
+      "Returns the inverse of the gamma distribution.",
+    ],
+    [
+      "GAMMADIST",
+      "x, alpha, beta, cumulative",
+      NUMBER,
+      "Returns the gamma distribution.",
+    ],
+    [
+      "GAMMAINV",
+      "probability, alpha, beta",
+      NUMBER,
+      "Returns the inverse of the gamma distribution.",
+    ],
+    [
+      "GAUSS",
+      "z",
+      NUMBER,
+      "Returns the probability that a standard normal variable is between the mean and z deviations from it.",
+    ],
+    ["GEOMEAN", "value...", NUMBER, "Returns the geometric mean of a dataset."],
+    ["HARMEAN", "value...", NUMBER, "Returns the harmonic mean of a dataset."],
+    [
+      "HYPGEOM.DIST",
+      "num_successes, num_draws, successes_in_pop, pop_size, cumulative",
+      NUMBER,
+      "Returns the hypergeometric distribution.",
+    ],
+    [
+      "HYPGEOMDIST",
+      "num_successes, num_draws, successes_in_pop, pop_size",
+      NUMBER,
+      "Returns the hypergeometric distribution.",
+    ],
+    [
+      "INTERCEPT",
+      "data_y, data_x",
+      NUMBER,
+      "Returns the y-intercept of a linear regression line.",
+    ],
+    ["KURT", "value...", NUMBER, "Returns the kurtosis of a dataset."],
+    [
+      "LARGE",
+      "data, n",
+      NUMBER,
+      "Returns the nth largest element of a dataset.",
+    ],
+    [
+      "LOGINV",
+      "x, mean, standard_deviation",
+      NUMBER,
+      "Returns the inverse of the lognormal cumulative distribution.",
+    ],
+    [
+      "LOGNORM.DIST",
+      "x, mean, standard_deviation, [cumulative]",
+      NUMBER,
+      "Returns the lognormal distribution.",
+    ],
+    [
+      "LOGNORM.INV",
+      "x, mean, standard_deviation",
+      NUMBER,
+      "Returns the inverse of the lognormal cumulative distribution.",
+    ],
+    [
+      "LOGNORMDIST",
+      "x, mean, standard_deviation",
+      NUMBER,
+      "Returns the lognormal cumulative distribution.",
+    ],
+    [
+      "MARGINOFERROR",
+      "range, confidence",
+      NUMBER,
+      "Returns the margin of error for a range of values and a confidence level.",
+    ],
+    [
+      "MAX",
+      "value...",
+      NUMBER,
+      "Returns the maximum value in a numeric dataset.",
+    ],
+    [
+      "MAXA",
+      "value...",
+      NUMBER,
+      "Returns the maximum numeric value in a dataset.",
+    ],
+    [
+      "MAXIFS",
+      "range, (criteria_range, criterion)...",
+      NUMBER,
+      "Returns the maximum value in a range filtered by criteria.",
+    ],
+    [
+      "MEDIAN",
+      "value...",
+      NUMBER,
+      "Returns the median value in a numeric dataset.",
+    ],
+    [
+      "MIN",
+      "value...",
+      NUMBER,
+      "Returns the minimum value in a numeric dataset.",
+    ],
+    [
+      "MINA",
+      "value...",
+      NUMBER,
+      "Returns the minimum numeric value in a dataset.",
+    ],
+    [
+      "MINIFS",
+      "range, (criteria_range, criterion)...",
+      NUMBER,
+      "Returns the minimum value in a range filtered by criteria.",
+    ],
+    [
+      "MODE",
+      "value...",
+      NUMBER,
+      "Returns the most commonly occurring value in a dataset.",
+    ],
+    [
+      "MODE.MULT",
+      "value...",
+      ARRAY,
+      "Returns the most commonly occurring values in a dataset.",
+    ],
+    [
+      "MODE.SNGL",
+      "value...",
+      NUMBER,
+      "Returns the most commonly occurring value in a dataset.",
+    ],
+    [
+      "NEGBINOM.DIST",
+      "num_failures, num_successes, prob_success, cumulative",
+      NUMBER,
+      "Returns the negative binomial distribution probability.",
+    ],
+    [
+      "NEGBINOMDIST",
+      "num_failures, num_successes, prob_success",
+      NUMBER,
+      "Returns the negative binomial distribution probability.",
+    ],
+    [
+      "NORM.DIST",
+      "x, mean, standard_deviation, cumulative",
+      NUMBER,
+      "Returns the normal distribution function.",
+    ],
+    [
+      "NORM.INV",
+      "x, mean, standard_deviation",
+      NUMBER,
+      "Returns the inverse of the normal cumulative distribution.",
+    ],
+    [
+      "NORM.S.DIST",
+      "x, cumulative",
+      NUMBER,
+      "Returns the standard normal distribution function.",
+    ],
+    [
+      "NORM.S.INV",
+      "x",
+      NUMBER,
+      "Returns the inverse of the standard normal cumulative distribution.",
+    ],
+    [
+      "NORMDIST",
+      "x, mean, standard_deviation, cumulative",
+      NUMBER,
+      "Returns the normal distribution function.",
+    ],
+    [
+      "NORMINV",
+      "x, mean, standard_deviation",
+      NUMBER,
+      "Returns the inverse of the normal cumulative distribution.",
+    ],
+    [
+      "NORMSDIST",
+      "x",
+      NUMBER,
+      "Returns the standard normal cumulative distribution function.",
+    ],
+    [
+      "NORMSINV",
+      "x",
+      NUMBER,
+      "Returns the inverse of the standard normal cumulative distribution.",
+    ],
+    [
+      "PEARSON",
+      "data_y, data_x",
+      NUMBER,
+      "Returns the Pearson correlation coefficient of a dataset.",
+    ],
+    [
+      "PERCENTILE",
+      "data, percentile",
+      NUMBER,
+      "Returns the value at a percentile of a dataset.",
+    ],
+    [
+      "PERCENTILE.EXC",
+      "data, percentile",
+      NUMBER,
+      "Returns the value at a percentile of a dataset, exclusive of 0 and 1.",
+    ],
+    [
+      "PERCENTILE.INC",
+      "data, percentile",
+      NUMBER,
+      "Returns the value at a percentile of a dataset, inclusive of 0 and 1.",
+    ],
+    [
+      "PERCENTRANK",
+      "data, value, [significant_digits]",
+      NUMBER,
+      "Returns the percentage rank of a value in a dataset.",
+    ],
+    [
+      "PERCENTRANK.EXC",
+      "data, value, [significant_digits]",
+      NUMBER,
+      "Returns the percentage rank of a value in a dataset, exclusive of 0 and 1.",
+    ],
+    [
+      "PERCENTRANK.INC",
+      "data, value, [significant_digits]",
+      NUMBER,
+      "Returns the percentage rank of a value in a dataset, inclusive of 0 and 1.",
+    ],
+    [
+      "PERMUT",
+      "n, k",
+      NUMBER,
+      "Returns the number of ways to choose ordered objects from a pool.",
+    ],
+    [
+      "PERMUTATIONA",
+      "number, number_chosen",
+      NUMBER,
+      "Returns the number of ordered arrangements of objects, with repetition.",
+    ],
+    [
+      "PHI",
+      "x",
+      NUMBER,
+      "Returns the standard normal density function of a value.",
+    ],
+    [
+      "POISSON",
+      "x, mean, [cumulative]",
+      NUMBER,
+      "Returns the Poisson distribution function.",
+    ],
+    [
+      "POISSON.DIST",
+      "x, mean, [cumulative]",
+      NUMBER,
+      "Returns the Poisson distribution function.",
+    ],
+    [
+      "PROB",
+      "data, probabilities, low_limit, [high_limit]",
+      NUMBER,
+      "Returns the probability that a random value lies between two limits.",
+    ],
+    [
+      "QUARTILE",
+      "data, quartile_number",
+      NUMBER,
+      "Returns a quartile of a dataset.",
+    ],
+    [
+      "QUARTILE.EXC",
+      "data, quartile_number",
+      NUMBER,
+      "Returns a quartile of a dataset, exclusive of 0 and 4.",
+    ],
+    [
+      "QUARTILE.INC",
+      "data, quartile_number",
+      NUMBER,
+      "Returns a quartile of a dataset, inclusive of 0 and 4.",
+    ],
+    [
+      "RANK",
+      "value, data, [is_ascending]",
+      NUMBER,
+      "Returns the rank of a value in a dataset.",
+    ],
+    [
+      "RANK.AVG",
+      "value, data, [is_ascending]",
+      NUMBER,
+      "Returns the rank of a value in a dataset, averaging ties.",
+    ],
+    [
+      "RANK.EQ",
+      "value, data, [is_ascending]",
+      NUMBER,
+      "Returns the rank of a value in a dataset, using the top rank for ties.",
+    ],
+    [
+      "RSQ",
+      "data_y, data_x",
+      NUMBER,
+      "Returns the square of the Pearson correlation coefficient.",
+    ],
+    ["SKEW", "value...", NUMBER, "Returns the skewness of a sample."],
+    ["SKEW.P", "value...", NUMBER, "Returns the skewness of a population."],
+    [
+      "SLOPE",
+      "data_y, data_x",
+      NUMBER,
+      "Returns the slope of a linear regression line.",
+    ],
+    [
+      "SMALL",
+      "data, n",
+      NUMBER,
+      "Returns the nth smallest element of a dataset.",
+    ],
+    [
+      "STANDARDIZE",
+      "value, mean, standard_deviation",
+      NUMBER,
+      "Returns the normalized equivalent of a random variable.",
+    ],
+    [
+      "STDEV",
+      "value...",
+      NUMBER,
+      "Returns the standard deviation of a sample.",
+    ],
+    [
+      "STDEV.P",
+      "value...",
+      NUMBER,
+      "Returns the standard deviation of a population.",
+    ],
+    [
+      "STDEV.S",
+      "value...",
+      NUMBER,
+      "Returns the standard deviation of a sample.",
+    ],
+    [
+      "STDEVA",
+      "value...",
+      NUMBER,
+      "Returns the standard deviation of a sample, counting text as 0.",
+    ],
+    [
+      "STDEVP",
+      "value...",
+      NUMBER,
+      "Returns the standard deviation of a population.",
+    ],
+    [
+      "STDEVPA",
+      "value...",
+      NUMBER,
+      "Returns the standard deviation of a population, counting text as 0.",
+    ],
+    [
+      "STEYX",
+      "data_y, data_x",
+      NUMBER,
+      "Returns the standard error of the predicted y-values in a regression.",
+    ],
+    [
+      "T.DIST",
+      "x, degrees_freedom, cumulative",
+      NUMBER,
+      "Returns the left-tailed Student's t-distribution.",
+    ],
+    [
+      "T.DIST.2T",
+      "x, degrees_freedom",
+      NUMBER,
+      "Returns the two-tailed Student's t-distribution.",
+    ],
+    [
+      "T.DIST.RT",
+      "x, degrees_freedom",
+      NUMBER,
+      "Returns the right-tailed Student's t-distribution.",
+    ],
+    [
+      "T.INV",
+      "probability, degrees_freedom",
+      NUMBER,
+      "Returns the inverse of the left-tailed Student's t-distribution.",
+    ],
+    [
+      "T.INV.2T",
+      "probability, degrees_freedom",
+      NUMBER,
+      "Returns the inverse of the two-tailed Student's t-distribution.",
+    ],
+    [
+      "T.TEST",
+      "range1, range2, tails, type",
+      NUMBER,
+      "Returns the probability from a Student's t-test.",
+    ],
+    [
+      "TDIST",
+      "x, degrees_freedom, tails",
+      NUMBER,
+      "Returns the Student's t-distribution.",
+    ],
+    [
+      "TINV",
+      "probability, degrees_freedom",
+      NUMBER,
+      "Returns the inverse of the two-tailed Student's t-distribution.",
+    ],
+    [
+      "TRIMMEAN",
+      "data, exclude_proportion",
+      NUMBER,
+      "Returns the mean of a dataset excluding a proportion at the ends.",
+    ],
+    [
+      "TTEST",
+      "range1, range2, tails, type",
+      NUMBER,
+      "Returns the probability from a Student's t-test.",
+    ],
+    ["VAR", "value...", NUMBER, "Returns the variance of a sample."],
+    ["VAR.P", "value...", NUMBER, "Returns the variance of a population."],
+    ["VAR.S", "value...", NUMBER, "Returns the variance of a sample."],
+    [
+      "VARA",
+      "value...",
+      NUMBER,
+      "Returns the variance of a sample, counting text as 0.",
+    ],
+    ["VARP", "value...", NUMBER, "Returns the variance of a population."],
+    [
+      "VARPA",
+      "value...",
+      NUMBER,
+      "Returns the variance of a population, counting text as 0.",
+    ],
+    [
+      "WEIBULL",
+      "x, shape, scale, cumulative",
+      NUMBER,
+      "Returns the Weibull distribution function.",
+    ],
+    [
+      "WEIBULL.DIST",
+      "x, shape, scale, cumulative",
+      NUMBER,
+      "Returns the Weibull distribution function.",
+    ],
+    [
+      "Z.TEST",
+      "data, value, [standard_deviation]",
+      NUMBER,
+      "Returns the one-tailed p-value of a Z-test.",
+    ],
+    [
+      "ZTEST",
+      "data, value, [standard_deviation]",
+      NUMBER,
+      "Returns the one-tailed p-value of a Z-test.",
+    ],
+  ],
+  [FunctionCategory.TEXT]: [
+    [
+      "ARABIC",
+      "roman_numeral",
+      NUMBER,
+      "Converts a Roman numeral to an Arabic numeral.",
+    ],
+    [
+      "ASC",
+      "text",
+      STRING,
+      "Converts full-width characters to half-width characters.",
+    ],
+    [
+      "CHAR",
+      "table_number",
+      STRING,
+      "Converts a number into a character from the Unicode table.",
+    ],
+    ["CLEAN", "text", STRING, "Removes non-printable characters from text."],
+    [
+      "CODE",
+      "string",
+      NUMBER,
+      "Returns the Unicode value of the first character of a string.",
+    ],
+    ["CONCATENATE", "string...", STRING, "Appends strings to one another."],
+    [
+      "DOLLAR",
+      "number, [number_of_places]",
+      STRING,
+      "Formats a number as currency.",
+    ],
+    [
+      "EXACT",
+      "string1, string2",
+      BOOLEAN,
+      "Checks whether two strings are identical.",
+    ],
+    [
+      "FIND",
+      "search_for, text_to_search, [starting_at]",
+      NUMBER,
+      "Returns the position of a string within text, case-sensitive.",
+    ],
+    [
+      "FINDB",
+      "search_for, text_to_search, [starting_at]",
+      NUMBER,
+      "Returns the byte position of a string within text.",
+    ],
+    [
+      "FIXED",
+      "number, [number_of_places], [suppress_separator]",
+      STRING,
+      "Formats a number with a fixed number of decimal places.",
+    ],
+    [
+      "JOIN",
+      "delimiter, value_or_array...",
+      STRING,
+      "Concatenates values with a delimiter.",
+    ],
+    [
+      "LEFT",
+      "string, [number_of_characters]",
+      STRING,
+      "Returns a substring from the beginning of a string.",
+    ],
+    [
+      "LEFTB",
+      "string, num_of_bytes",
+      STRING,
+      "Returns the left portion of a string up to a number of bytes.",
+    ],
+    ["LEN", "text", NUMBER, "Returns the length of a string."],
+    ["LENB", "string", NUMBER, "Returns the length of a string in bytes."],
+    ["LOWER", "text", STRING, "Converts a string to lowercase."],
+    [
+      "MID",
+      "string, starting_at, extract_length",
+      STRING,
+      "Returns a segment of a string.",
+    ],
+    [
+      "MIDB",
+      "string, starting_at, extract_length_bytes",
+      STRING,
+      "Returns a segment of a string by bytes.",
+    ],
+    [
+      "PROPER",
+      "text_to_capitalize",
+      STRING,
+      "Capitalizes each word in a string.",
+    ],
+    [
+      "REGEXEXTRACT",
+      "text, regular_expression",
+      STRING,
+      "Extracts the first substring matching a regular expression.",
+    ],
+    [
+      "REGEXMATCH",
+      "text, regular_expression",
+      BOOLEAN,
+      "Checks whether text matches a regular expression.",
+    ],
+    [
+      "REGEXREPLACE",
+      "text, regular_expression, replacement",
+      STRING,
+      "Replaces part of a string matching a regular expression.",
+    ],
+    [
+      "REPLACE",
+      "text, position, length, new_text",
+      STRING,
+      "Replaces part of a string with a different string.",
+    ],
+    [
+      "REPLACEB",
+      "text, position, num_bytes, new_text",
+      STRING,
+      "Replaces part of a string by bytes with a different string.",
+    ],
+    [
+      "REPT",
+      "text_to_repeat, number_of_repetitions",
+      STRING,
+      "Returns text repeated a number of times.",
+    ],
+    [
+      "RIGHT",
+      "string, [number_of_characters]",
+      STRING,
+      "Returns a substring from the end of a string.",
+    ],
+    [
+      "RIGHTB",
+      "string, num_of_bytes",
+      STRING,
+      "Returns the right portion of a string up to a number of bytes.",
+    ],
+    [
+      "ROMAN",
+      "number, [rule_relaxation]",
+      STRING,
+      "Formats a number in Roman numerals.",
+    ],
+    [
+      "SEARCH",
+      "search_for, text_to_search, [starting_at]",
+      NUMBER,
+      "Returns the position of a string within text, case-insensitive.",
+    ],
+    [
+      "SEARCHB",
+      "search_for, text_to_search, [starting_at]",
+      NUMBER,
+      "Returns the byte position of a string within text, case-insensitive.",
+    ],
+    [
+      "SPLIT",
+      "text, delimiter, [split_by_each], [remove_empty_text]",
+      ARRAY,
+      "Divides text around a delimiter into separate cells.",
+    ],
+    [
+      "SUBSTITUTE",
+      "text_to_search, search_for, replace_with, [occurrence_number]",
+      STRING,
+      "Replaces existing text with new text in a string.",
+    ],
+    ["T", "value", STRING, "Returns string arguments as text."],
+    [
+      "TEXT",
+      "number, format",
+      STRING,
+      "Converts a number into text according to a format.",
+    ],
+    [
+      "TEXTJOIN",
+      "delimiter, ignore_empty, text...",
+      STRING,
+      "Combines text from multiple strings or arrays with a delimiter.",
+    ],
+    [
+      "TRIM",
+      "text",
+      STRING,
+      "Removes leading, trailing and repeated spaces from text.",
+    ],
+    [
+      "UNICHAR",
+      "number",
+      STRING,
+      "Returns the Unicode character for a number.",
+    ],
+    [
+      "UNICODE",
+      "text",
+      NUMBER,
+      "Returns the Unicode value of the first character of text.",
+    ],
+    ["UPPER", "text", STRING, "Converts a string to uppercase."],
+    [
+      "VALUE",
+      "text",
+      NUMBER,
+      "Converts a string in a recognized number format to a number.",
+    ],
+  ],
+  [FunctionCategory.WEB]: [
+    [
+      "ENCODEURL",
+      "text",
+      STRING,
+      "Encodes a string of text for use in a URL query.",
+    ],
+    [
+      "HYPERLINK",
+      "url, [link_label]",
+      STRING,
+      "Creates a hyperlink inside a cell.",
+    ],
+    [
+      "IMPORTDATA",
+      "url",
+      ARRAY,
+      "Imports data at a URL in .csv or .tsv format.",
+    ],
+    [
+      "IMPORTFEED",
+      "url, [query], [headers], [num_items]",
+      ARRAY,
+      "Imports an RSS or ATOM feed.",
+    ],
+    [
+      "IMPORTHTML",
+      "url, query, index",
+      ARRAY,
+      "Imports data from a table or list within an HTML page.",
+    ],
+    [
+      "IMPORTRANGE",
+      "spreadsheet_url, range_string",
+      ARRAY,
+      "Imports a range of cells from another spreadsheet.",
+    ],
+    [
+      "IMPORTXML",
+      "url, xpath_query",
+      ARRAY,
+      "Imports data from structured data types using an XPath query.",
+    ],
+    ["ISURL", "value", BOOLEAN, "Checks whether a value is a valid URL."],
+  ],
+};
@@ -0,0 +1,61 @@
+/** The function categories, as grouped in the Google Sheets function list. */
+export enum FunctionCategory {
+  ARRAY = "Array",
+  DATABASE = "Database",
+  DATE = "Date",
+  ENGINEERING = "Engineering",
+  FILTER = "Filter",
+  FINANCIAL = "Financial",
+  GOOGLE = "Google",
+  INFO = "Info",
+  LOGICAL = "Logical",
+  LOOKUP = "Lookup",
+  MATH = "Math",
+  OPERATOR = "Operator",
+  PARSER = "Parser",
+  STATISTICAL = "Statistical",
+  TEXT = "Text",
+  WEB = "Web",
+}
+
+/** The types of values that a function can return. */
+export enum ValueType {
+  ANY = "any",
+  NUMBER = "number",
+  STRING = "string",
+  BOOLEAN = "boolean",
+  DATE = "date",
+  ARRAY = "array",
+  REFERENCE = "reference",
+  LAMBDA = "lambda",
+}
+
+/** A function parameter. */
+export interface FunctionParameter {
+  /** The name of the parameter. */
+  name: string;
+  /** Whether the parameter can be omitted. */
+  optional: boolean;
+  /**
+   * Whether the parameter is part of the repeating group. The repeating group
+   * is a contiguous run of parameters, such as `condition, value` in `IFS`,
+   * that can be given any number of times.
+   */
+  repeating: boolean;
+}
+
+/** A built-in function. */
+export interface FunctionSignature {
+  /** The function name, in uppercase. */
+  name: string;
+  /** The category of the function. */
+  category: FunctionCategory;
+  /** The parameters of the function. */
+  parameters: FunctionParameter[];
+  /** The type of value the function returns. */
+  returnType: ValueType;
+  /** Whether the function is recalculated on every change. */
+  volatile: boolean;
+  /** A short description of the function. */
+  description: string;
+}
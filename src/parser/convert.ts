@@ -0,0 +1,102 @@
+import { Locale, LOCALE_SEPARATORS } from "./locale";
+import {
+  CellAddress,
+  parseRangeReference,
+  ReferenceNotation,
+  stringifyRangeReference,
+} from "./reference";
+import { parseTokens, Token, TokenType } from "./tokens";
+import { convertPositionToIndex } from "../utils/position";
+
+/** Rewrites the given lines from one locale to another. */
+export function convertLocale(
+  lines: string[],
+  fromLocale: Locale,
+  toLocale: Locale
+): string[] {
+  if (fromLocale === toLocale) return [...lines];
+  const from = LOCALE_SEPARATORS[fromLocale];
+  const to = LOCALE_SEPARATORS[toLocale];
+  const replacements = new Map<Token, string>();
+  // Whether each enclosing bracket is an array literal (instead of a function
+  // call or parentheses), which determines what the separators mean.
+  const inArrayStack: boolean[] = [];
+  for (const token of parseTokens(lines, fromLocale)) {
+    const inArray = inArrayStack[inArrayStack.length - 1] ?? false;
+    switch (token.type) {
+      case TokenType.L_PAREN:
+        inArrayStack.push(false);
+        break;
+      case TokenType.L_BRACKET:
+        inArrayStack.push(true);
+        break;
+      case TokenType.R_PAREN:
+      case TokenType.R_BRACKET:
+        inArrayStack.pop();
+        break;
+      case TokenType.NUMBER:
+        replacements.set(
+          token,
+          token.content.replace(from.decimal, to.decimal)
+        );
+        break;
+      case TokenType.COMMA:
+      case TokenType.SEMICOLON:
+      case TokenType.BACKSLASH:
+        if (inArray && token.content === from.arrayColumn) {
+          replacements.set(token, to.arrayColumn);
+        } else if (inArray && token.content === from.arrayRow) {
+          replacements.set(token, to.arrayRow);
+        } else if (!inArray && token.content === from.argument) {
+          replacements.set(token, to.argument);
+        }
+        break;
+    }
+  }
+  return replaceTokens(lines, replacements);
+}
+
+/**
+ * Rewrites every cell and range reference in the given lines into the given
+ * notation, as if the formula was in the `anchor` cell.
+ *
+ * References that would be off the grid are replaced with `#REF!`.
+ */
+export function convertReferenceNotation(
+  lines: string[],
+  notation: ReferenceNotation,
+  anchor: CellAddress,
+  locale: Locale = Locale.US
+): string[] {
+  const replacements = new Map<Token, string>();
+  for (const token of parseTokens(lines, locale)) {
+    if (token.type !== TokenType.RANGE) continue;
+    const reference = parseRangeReference(token.content, anchor);
+    if (reference === null) continue;
+    replacements.set(
+      token,
+      stringifyRangeReference(reference, notation, anchor) ?? "#REF!"
+    );
+  }
+  return replaceTokens(lines, replacements);
+}
+
+/** Replaces the content of each token with its new text. */
+export function replaceTokens(
+  lines: string[],
+  replacements: Map<Token, string>
+): string[] {
+  let text = lines.join("\n");
+  // Replace from the end so that the earlier positions stay valid.
+  const entries = [...replacements.entries()].sort(
+    ([token1], [token2]) =>
+      convertPositionToIndex(lines, token2.startPosition) -
+      convertPositionToIndex(lines, token1.startPosition)
+  );
+  for (const [token, newContent] of entries) {
+    const startIndex = convertPositionToIndex(lines, token.startPosition);
+    const endIndex = convertPositionToIndex(lines, token.endPosition) + 1;
+    text = text.slice(0, startIndex) + newContent + text.slice(endIndex);
+  }
+  return text.split("\n");
+}
@@ -0,0 +1,247 @@
+import {
+  Expression,
+  ExpressionList,
+  ExpressionType,
+  ParseResult,
+  Term,
+  TermType,
+} from "./parse";
+import {
+  CellAddress,
+  parseRangeReference,
+  RangeReference,
+  ReferenceNotation,
+  splitSheetName,
+  stringifyRangeReference,
+  unquoteSheetName,
+} from "./reference";
+import { ScopeAnalysis } from "./scope";
+import { Token, TokenType } from "./tokens";
+import { sortByPositions } from "../utils/position";
+
+/** The kinds of things a formula can read. */
+export enum DependencyKind {
+  CELL = "CELL",
+  RANGE = "RANGE",
+  WHOLE_COLUMNS = "WHOLE_COLUMNS",
+  WHOLE_ROWS = "WHOLE_ROWS",
+  NAMED_RANGE = "NAMED_RANGE",
+  STRUCTURED_REFERENCE = "STRUCTURED_REFERENCE",
+}
+
+/** A cell, range or name that a formula reads, and everywhere it appears. */
+export interface Dependency {
+  /** The kind of dependency. */
+  kind: DependencyKind;
+  /**
+   * The unquoted sheet name, or null if the reference is to the formula's own
+   * sheet (or a named range, which is not on a sheet).
+   */
+  sheetName: string | null;
+  /**
+   * The reference without its sheet name, such as "A1:B2". Cell references are
+   * written in A1 notation without `$`, so `$A$1` and `A1` are the same
+   * dependency. Names are written as they first appear.
+   */
+  name: string;
+  /** The tokens where the dependency appears, in order. */
+  tokens: Token[];
+}
+
+/**
+ * Lists the cells, ranges and named ranges that a formula reads, in the order
+ * they first appear. `LET` variables and `LAMBDA` parameters are not included,
+ * even if they look like cell references.
+ *
+ * Relative R1C1 references are resolved against `anchor`.
+ */
+export function getDependencies(
+  parseResult: ParseResult,
+  scopes: ScopeAnalysis,
+  anchor: CellAddress = { row: 0, col: 0 }
+): Dependency[] {
+  const bindingTokens = new Set([
+    ...scopes.bindings.map((binding) => binding.token),
+    ...scopes.references.keys(),
+  ]);
+  const tokens: Token[] = [];
+  if (parseResult.expression !== null) {
+    collectLiterals(parseResult.expression, tokens);
+  }
+
+  const dependencies = new Map<string, Dependency>();
+  for (const token of tokens.sort(sortByPositions((t) => t.startPosition))) {
+    if (bindingTokens.has(token)) continue;
+    const dependency = createDependency(token, anchor);
+    if (dependency === null) continue;
+    const key = [
+      dependency.kind,
+      dependency.sheetName?.toUpperCase(),
+      dependency.name.toUpperCase(),
+    ].join("!");
+    const existing = dependencies.get(key);
+    if (existing !== undefined) {
+      existing.tokens.push(token);
+    } else {
+      dependencies.set(key, dependency);
+    }
+  }
+  return Array.from(dependencies.values());
+}
+
+/**
+ * Groups dependencies by their sheet name. Sheet names are case-insensitive,
+ * so the first spelling is used for the group.
+ */
+export function groupDependenciesBySheet(
+  dependencies: Dependency[]
+): Map<string | null, Dependency[]> {
+  const groups = new Map<string | null, Dependency[]>();
+  const spellings = new Map<string, string>();
+  for (const dependency of dependencies) {
+    let { sheetName } = dependency;
+    if (sheetName !== null) {
+      const upperName = sheetName.toUpperCase();
+      if (!spellings.has(upperName)) spellings.set(upperName, sheetName);
+      sheetName = spellings.get(upperName)!;
+    }
+    if (!groups.has(sheetName)) groups.set(sheetName, []);
+    groups.get(sheetName)!.push(dependency);
+  }
+  return groups;
+}
+
+function createDependency(
+  token: Token,
+  anchor: CellAddress
+): Dependency | null {
+  switch (token.type) {
+    case TokenType.RANGE: {
+      const reference = parseRangeReference(token.content, anchor);
+      if (reference === null) {
+        // A named range, which can be qualified such as `Sheet1!Totals`.
+        const [sheetName, name] = splitSheetName(token.content);
+        return {
+          kind: DependencyKind.NAMED_RANGE,
+          sheetName: sheetName === null ? null : unquoteSheetName(sheetName),
+          name,
+          tokens: [token],
+        };
+      }
+      return {
+        kind: getReferenceKind(reference),
+        sheetName:
+          reference.sheetName === null
+            ? null
+            : unquoteSheetName(reference.sheetName),
+        name: normalizeReference(reference, anchor) ?? token.content,
+        tokens: [token],
+      };
+    }
+    case TokenType.IDENTIFIER:
+      return {
+        kind: DependencyKind.NAMED_RANGE,
+        sheetName: null,
+        name: token.content,
+        tokens: [token],
+      };
+    case TokenType.STRUCTURED_REFERENCE:
+      return {
+        kind: DependencyKind.STRUCTURED_REFERENCE,
+        sheetName: null,
+        name: token.content,
+        tokens: [token],
+      };
+    default:
+      return null;
+  }
+}
+
+function getReferenceKind(reference: RangeReference): DependencyKind {
+  const { start, end } = reference;
+  if (end === null) return DependencyKind.CELL;
+  if (start.row === null && end.row === null) {
+    return DependencyKind.WHOLE_COLUMNS;
+  }
+  if (start.col === null && end.col === null) return DependencyKind.WHOLE_ROWS;
+  return DependencyKind.RANGE;
+}
+
+/**
+ * Writes a reference in A1 notation without its sheet name or `$` signs.
+ * Returns null if it is off the grid.
+ */
+function normalizeReference(
+  reference: RangeReference,
+  anchor: CellAddress
+): string | null {
+  const relative = { rowAbsolute: false, colAbsolute: false };
+  return stringifyRangeReference(
+    {
+      sheetName: null,
+      start: { ...reference.start, ...relative },
+      end: reference.end === null ? null : { ...reference.end, ...relative },
+      notation: ReferenceNotation.A1,
+    },
+    ReferenceNotation.A1,
+    anchor
+  );
+}
+
+/**
+ * Collects the literal tokens in an expression, except for the tokens that
+ * were skipped by error recovery.
+ */
+function collectLiterals(expression: Expression, tokens: Token[]) {
+  switch (expression.type) {
+    case ExpressionType.TERM:
+      collectTermLiterals(expression.term!, tokens);
+      break;
+    case ExpressionType.BINARY_OP:
+      collectLiterals(expression.binaryOp!.left, tokens);
+      collectLiterals(expression.binaryOp!.right, tokens);
+      break;
+    case ExpressionType.RECOVERED: {
+      const { expression: inner, rest } = expression.recovered!;
+      if (inner !== null) collectLiterals(inner, tokens);
+      if (rest !== null) collectLiterals(rest, tokens);
+      break;
+    }
+  }
+}
+
+function collectListLiterals(list: ExpressionList, tokens: Token[]) {
+  for (const expression of list.expressions) {
+    if (expression !== null) collectLiterals(expression, tokens);
+  }
+}
+
+function collectTermLiterals(term: Term, tokens: Token[]) {
+  switch (term.type) {
+    case TermType.LITERAL:
+      tokens.push(term.literal!);
+      break;
+    case TermType.UNARY_OP:
+      collectTermLiterals(term.unaryOp!.operand, tokens);
+      break;
+    case TermType.POSTFIX_OP:
+      collectTermLiterals(term.postfixOp!.operand, tokens);
+      break;
+    case TermType.RANGE_OP:
+      collectTermLiterals(term.rangeOp!.left, tokens);
+      collectTermLiterals(term.rangeOp!.right, tokens);
+      break;
+    case TermType.ARRAY_LITERAL:
+      for (const row of term.arrayLiteral!.rows) {
+        collectListLiterals(row, tokens);
+      }
+      break;
+    case TermType.CALL:
+      // The function name is not a dependency.
+      collectListLiterals(term.call!.args, tokens);
+      break;
+    case TermType.PARENTHESIZED:
+      collectLiterals(term.parenthesized!.expression, tokens);
+      break;
+  }
+}
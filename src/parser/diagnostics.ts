@@ -0,0 +1,247 @@
+import {
+  getArgumentCountRange,
+  getFunctionSignature,
+  matchArguments,
+} from "../functions/catalog";
+import {
+  Expression,
+  ExpressionList,
+  ExpressionType,
+  ParseResult,
+  Term,
+  TermType,
+} from "./parse";
+import { parseRangeReference } from "./reference";
+import { BindingKind, ScopeAnalysis } from "./scope";
+import { Token, TokenType } from "./tokens";
+import { sortByPositions } from "../utils/position";
+
+/** The diagnostic types. */
+export enum DiagnosticType {
+  UNKNOWN_FUNCTION = "UNKNOWN_FUNCTION",
+  TOO_FEW_ARGUMENTS = "TOO_FEW_ARGUMENTS",
+  TOO_MANY_ARGUMENTS = "TOO_MANY_ARGUMENTS",
+  WRONG_ARGUMENT_COUNT = "WRONG_ARGUMENT_COUNT",
+  EMPTY_ARGUMENT = "EMPTY_ARGUMENT",
+  UNDEFINED_NAME = "UNDEFINED_NAME",
+  UNUSED_BINDING = "UNUSED_BINDING",
+  SHADOWED_BINDING = "SHADOWED_BINDING",
+  CELL_REFERENCE_NAME = "CELL_REFERENCE_NAME",
+}
+
+/**
+ * A warning about a formula that parsed successfully but is likely wrong.
+ * Unlike parse errors, diagnostics never prevent formatting.
+ */
+export interface Diagnostic {
+  /** The type of the diagnostic. */
+  type: DiagnosticType;
+  /** The token that the diagnostic is reported at. */
+  token: Token;
+  /** A description of the problem. */
+  message: string;
+}
+
+/**
+ * Checks the function calls in a parsed formula against the built-in function
+ * signatures, and the `LET` and `LAMBDA` bindings in its scopes. Returns the
+ * diagnostics in the order they appear.
+ */
+export function getDiagnostics(
+  parseResult: ParseResult,
+  scopes: ScopeAnalysis
+): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  if (parseResult.expression !== null) {
+    checkExpression(parseResult.expression, scopes, diagnostics);
+  }
+  checkScopes(scopes, diagnostics);
+  return diagnostics.sort(
+    sortByPositions((diagnostic) => diagnostic.token.startPosition)
+  );
+}
+
+function checkExpression(
+  expression: Expression,
+  scopes: ScopeAnalysis,
+  diagnostics: Diagnostic[]
+) {
+  switch (expression.type) {
+    case ExpressionType.TERM:
+      checkTerm(expression.term!, scopes, diagnostics);
+      break;
+    case ExpressionType.BINARY_OP: {
+      const { left, right } = expression.binaryOp!;
+      checkExpression(left, scopes, diagnostics);
+      checkExpression(right, scopes, diagnostics);
+      break;
+    }
+    case ExpressionType.RECOVERED: {
+      const { expression: inner, rest } = expression.recovered!;
+      if (inner !== null) {
+        checkExpression(inner, scopes, diagnostics);
+      }
+      if (rest !== null) {
+        checkExpression(rest, scopes, diagnostics);
+      }
+      break;
+    }
+  }
+}
+
+function checkExpressionList(
+  list: ExpressionList,
+  scopes: ScopeAnalysis,
+  diagnostics: Diagnostic[]
+) {
+  for (const expression of list.expressions) {
+    if (expression !== null) {
+      checkExpression(expression, scopes, diagnostics);
+    }
+  }
+}
+
+function checkTerm(
+  term: Term,
+  scopes: ScopeAnalysis,
+  diagnostics: Diagnostic[]
+) {
+  switch (term.type) {
+    case TermType.LITERAL:
+      break;
+    case TermType.UNARY_OP:
+      checkTerm(term.unaryOp!.operand, scopes, diagnostics);
+      break;
+    case TermType.POSTFIX_OP:
+      checkTerm(term.postfixOp!.operand, scopes, diagnostics);
+      break;
+    case TermType.RANGE_OP:
+      checkTerm(term.rangeOp!.left, scopes, diagnostics);
+      checkTerm(term.rangeOp!.right, scopes, diagnostics);
+      break;
+    case TermType.ARRAY_LITERAL:
+      for (const row of term.arrayLiteral!.rows) {
+        checkExpressionList(row, scopes, diagnostics);
+      }
+      break;
+    case TermType.CALL:
+      checkCall(term, scopes, diagnostics);
+      break;
+    case TermType.PARENTHESIZED:
+      checkExpression(term.parenthesized!.expression, scopes, diagnostics);
+      break;
+  }
+}
+
+function checkCall(
+  term: Term,
+  scopes: ScopeAnalysis,
+  diagnostics: Diagnostic[]
+) {
+  const { functionToken, args, rightParenToken } = term.call!;
+  const signature = getFunctionSignature(functionToken.content);
+  const count = args.expressions.length;
+  if (signature === null) {
+    // Names bound by LET and LAMBDA can be called like functions.
+    if (
+      functionToken.errorType === undefined &&
+      !scopes.references.has(functionToken)
+    ) {
+      diagnostics.push({
+        type: DiagnosticType.UNKNOWN_FUNCTION,
+        token: functionToken,
+        message: `Unknown function ${functionToken.content}`,
+      });
+    }
+  } else if (rightParenToken !== undefined) {
+    // Unclosed calls are already errors, and might be missing arguments.
+    const parameters = matchArguments(signature, count);
+    if (parameters === null) {
+      const [min, max] = getArgumentCountRange(signature);
+      const expected = describeArgumentCount(min, max);
+      if (count < min || count > max) {
+        diagnostics.push({
+          type:
+            count < min
+              ? DiagnosticType.TOO_FEW_ARGUMENTS
+              : DiagnosticType.TOO_MANY_ARGUMENTS,
+          token: functionToken,
+          message: `${signature.name} expects ${expected}, but got ${count}`,
+        });
+      } else {
+        // The repeating group was only partly given.
+        const groupSize = signature.parameters.filter(
+          (param) => param.repeating
+        ).length;
+        diagnostics.push({
+          type: DiagnosticType.WRONG_ARGUMENT_COUNT,
+          token: functionToken,
+          message:
+            `${signature.name} expects repeated arguments in groups of ` +
+            `${groupSize}, but got ${count} arguments`,
+        });
+      }
+    } else {
+      args.expressions.forEach((expression, index) => {
+        if (expression !== null || parameters[index].optional) return;
+        diagnostics.push({
+          type: DiagnosticType.EMPTY_ARGUMENT,
+          // Report at the separator next to the empty argument.
+          token: args.commaTokens[Math.min(index, args.commaTokens.length - 1)],
+          message:
+            `${signature.name} is missing a value for ` +
+            `"${parameters[index].name}"`,
+        });
+      });
+    }
+  }
+  checkExpressionList(args, scopes, diagnostics);
+}
+
+function checkScopes(scopes: ScopeAnalysis, diagnostics: Diagnostic[]) {
+  for (const binding of scopes.bindings) {
+    const { name, token } = binding;
+    const kind =
+      binding.kind === BindingKind.LET_VARIABLE ? "Variable" : "Parameter";
+    if (
+      token.type === TokenType.RANGE &&
+      parseRangeReference(name, { row: 0, col: 0 }) !== null
+    ) {
+      diagnostics.push({
+        type: DiagnosticType.CELL_REFERENCE_NAME,
+        token,
+        message: `${kind} ${name} has the same name as a cell reference`,
+      });
+    }
+    if (binding.shadows !== null) {
+      diagnostics.push({
+        type: DiagnosticType.SHADOWED_BINDING,
+        token,
+        message: `${kind} ${name} hides an earlier binding with the same name`,
+      });
+    }
+    if (binding.references.length === 0) {
+      diagnostics.push({
+        type: DiagnosticType.UNUSED_BINDING,
+        token,
+        message: `${kind} ${name} is never used`,
+      });
+    }
+  }
+  for (const { token, scope } of scopes.unresolved) {
+    // Outside of LET and LAMBDA, unknown names are named ranges.
+    if (scope === scopes.root) continue;
+    diagnostics.push({
+      type: DiagnosticType.UNDEFINED_NAME,
+      token,
+      message: `Undefined name ${token.content} (treated as a named range)`,
+    });
+  }
+}
+
+function describeArgumentCount(min: number, max: number): string {
+  const plural = (n: number) => (n === 1 ? "argument" : "arguments");
+  if (min === max) return `${min} ${plural(min)}`;
+  if (max === Infinity) return `at least ${min} ${plural(min)}`;
+  return `${min} to ${max} ${plural(max)}`;
+}
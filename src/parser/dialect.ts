@@ -0,0 +1,17 @@
+/** The spreadsheet applications whose formula syntax is accepted. */
+export enum Dialect {
+  /** Google Sheets. Excel-only syntax is reported as an error. */
+  SHEETS = "SHEETS",
+  /** Microsoft Excel, which also allows structured references and such. */
+  EXCEL = "EXCEL",
+}
+
+/** Returns a display name for the given dialect. */
+export function dialectDisplayName(dialect: Dialect): string {
+  switch (dialect) {
+    case Dialect.SHEETS:
+      return "Google Sheets";
+    case Dialect.EXCEL:
+      return "Excel";
+  }
+}
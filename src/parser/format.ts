@@ -15,9 +15,14 @@ import {
   FormatNodeType,
   WrapType,
 } from "./formatNode";
+import { Locale } from "./locale";
+import { removeUnneededSheetQuotes } from "./sheets";
+import { parseTokens, printTokens, Token, TokenType } from "./tokens";
 import { UserPreferences } from "../app/preferences";
+import { getFunctionSignature } from "../functions/catalog";
 
 const SPACE = " ";
+const NEWLINE = "\n";
 
 /**
  * Formats the given parse result as lines.
@@ -28,19 +33,100 @@ export function formatLines(
   parseResult: ParseResult,
   userPreferences: UserPreferences
 ): string[] {
-  const node = buildFormatNode(parseResult);
+  const node = buildFormatNode(parseResult, userPreferences);
   const state: FormatState = {
     LINE_WIDTH: userPreferences.lineWidth,
     TAB: SPACE.repeat(userPreferences.tabSpaces),
     linesBuffer: [[]],
-    indentLevel: 0,
     // Start first line width as 1 to account for the inserted equals sign.
     currLineWidth: 1,
   };
-  formatNode(state, node, WrapType.DETECT);
+  formatNode(state, node);
   return state.linesBuffer.map((line) => line.join(""));
 }
 
+/**
+ * Formats the given parse result as compactly as possible, on one line (apart
+ * from line breaks inside strings). Punctuation is made canonical: function
+ * names and booleans are uppercased, and the quotes are removed from sheet
+ * names that don't need them. Whitespace between tokens is removed unless it
+ * keeps them apart, so the result parses to the same tokens (apart from their
+ * case and quotes), and so to an equivalent expression.
+ *
+ * Assumes `parseResult.canFormatExpression` is true.
+ */
+export function compactLines(
+  parseResult: ParseResult,
+  locale: Locale = Locale.US
+): string[] {
+  const tokens = parseTokens(
+    removeUnneededSheetQuotes(
+      printTokens(parseResult.tokens, parseResult.endTrivia),
+      locale
+    ),
+    locale
+  ).map((token, i, tokens) => ({
+    ...token,
+    content: getCanonicalContent(token, tokens[i + 1]),
+  }));
+  // The text of each token, including the space before it if one is needed.
+  const parts: string[] = [];
+  tokens.forEach((token, i) => {
+    // A token can merge with the two before it, such as `A1`, `:`, and `B1`
+    // being read as the single range `A1:B1`. How it is read can also depend
+    // on the token after it, such as `A1:INDEX` being a range unless followed
+    // by `(`.
+    const start = Math.max(0, i - 2);
+    const end = Math.min(tokens.length, i + 2);
+    let text = parts.slice(start).join("") + token.content;
+    if (end > i + 1) {
+      text += SPACE + tokens[i + 1].content;
+    }
+    const sameTokens = tokensMatch(
+      parseTokens(text.split(NEWLINE), locale),
+      tokens.slice(start, end)
+    );
+    parts.push(sameTokens ? token.content : SPACE + token.content);
+  });
+  return parts.join("").split(NEWLINE);
+}
+
+/**
+ * Gets the content of a token with booleans and the names of built-in
+ * functions in uppercase. Excel's `_xlfn.` prefix is kept as written.
+ */
+function getCanonicalContent(
+  token: Token,
+  nextToken: Token | undefined
+): string {
+  if (token.type === TokenType.LITERAL) {
+    return token.content.toUpperCase();
+  }
+  if (
+    token.type !== TokenType.IDENTIFIER ||
+    nextToken?.type !== TokenType.L_PAREN
+  ) {
+    return token.content;
+  }
+  const signature = getFunctionSignature(token.content);
+  if (signature === null) {
+    return token.content;
+  }
+  const prefixLength = token.content.length - signature.name.length;
+  return token.content.slice(0, prefixLength) + signature.name;
+}
+
+/** Returns whether two lists of tokens have the same types and contents. */
+function tokensMatch(tokens: Token[], expected: Token[]): boolean {
+  return (
+    tokens.length === expected.length &&
+    tokens.every(
+      (token, i) =>
+        token.type === expected[i].type && token.content === expected[i].content
+    )
+  );
+}
+
 interface FormatState {
   // Constants.
   LINE_WIDTH: number;
@@ -48,67 +134,312 @@ interface FormatState {
 
   // Mutable state.
   linesBuffer: string[][];
-  indentLevel: number;
   currLineWidth: number;
 }
 
-function formatNode(state: FormatState, node: FormatNode, wrapType: WrapType) {
-  switch (node.type) {
-    case FormatNodeType.GROUP:
-      if (state.currLineWidth + node.width > state.LINE_WIDTH) {
-        // Propagate wrapped status to children.
-        wrapType = WrapType.ENABLE;
-      } else {
-        wrapType = WrapType.DETECT;
+/** A node waiting to be formatted, along with how it should be formatted. */
+interface FormatCommand {
+  indentLevel: number;
+  wrapType: WrapType;
+  node: FormatNode;
+}
+
+function formatNode(state: FormatState, rootNode: FormatNode) {
+  // The nodes left to format, with the next one at the end. Whether a group
+  // fits depends on the nodes after it, so they are kept on a stack rather
+  // than formatted recursively.
+  const commands: FormatCommand[] = [
+    { indentLevel: 0, wrapType: WrapType.ENABLE, node: rootNode },
+  ];
+  const pushNodes = (
+    indentLevel: number,
+    wrapType: WrapType,
+    nodes: FormatNode[]
+  ) => {
+    for (let i = nodes.length - 1; i >= 0; i--) {
+      commands.push({ indentLevel, wrapType, node: nodes[i] });
+    }
+  };
+
+  while (commands.length > 0) {
+    const { indentLevel, wrapType, node } = commands.pop()!;
+    switch (node.type) {
+      case FormatNodeType.NODES:
+        pushNodes(indentLevel, wrapType, node.getNodes());
+        break;
+      case FormatNodeType.GROUP: {
+        const shouldBreak = node.getShouldBreak();
+        if (wrapType === WrapType.DETECT && !shouldBreak) {
+          // The enclosing group fits, so this group does too.
+          pushNodes(indentLevel, WrapType.DETECT, node.getNodes());
+          break;
+        }
+        const flat = { indentLevel, wrapType: WrapType.DETECT, node };
+        if (!shouldBreak && fits(state, flat, commands)) {
+          pushNodes(indentLevel, WrapType.DETECT, node.getNodes());
+        } else {
+          pushNodes(indentLevel, WrapType.ENABLE, node.getNodes());
+        }
+        break;
+      }
+      case FormatNodeType.CONDITIONAL_GROUP: {
+        const layouts = node.getNodes();
+        const mostExpanded = {
+          indentLevel,
+          wrapType: WrapType.ENABLE,
+          node: layouts[layouts.length - 1],
+        };
+        if (wrapType === WrapType.DETECT) {
+          commands.push({ indentLevel, wrapType, node: layouts[0] });
+          break;
+        }
+        // Take the first layout that fits without wrapping its groups, unless
+        // they must break.
+        const fitting = layouts
+          .map((layout) => ({
+            indentLevel,
+            wrapType: WrapType.DETECT,
+            node: layout,
+          }))
+          .find((command) => fits(state, command, commands));
+        commands.push(fitting ?? mostExpanded);
+        break;
+      }
+      case FormatNodeType.INDENT:
+        if (wrapType === WrapType.ENABLE) {
+          // The line was started at the previous indentation level.
+          insertText(state, state.TAB);
+          pushNodes(indentLevel + 1, wrapType, node.getNodes());
+        } else {
+          pushNodes(indentLevel, wrapType, node.getNodes());
+        }
+        break;
+      case FormatNodeType.TEXT:
+        insertText(state, node.getText());
+        break;
+      case FormatNodeType.SPACE_OR_LINE:
+        if (wrapType === WrapType.ENABLE) {
+          insertLine(state, indentLevel);
+        } else {
+          insertText(state, SPACE);
+        }
+        break;
+      case FormatNodeType.LINE:
+        if (wrapType === WrapType.ENABLE) {
+          insertLine(state, indentLevel);
+        }
+        break;
+      case FormatNodeType.IF_BREAK:
+        commands.push({
+          indentLevel,
+          wrapType,
+          node:
+            wrapType === WrapType.ENABLE
+              ? node.getBreakContents()
+              : node.getFlatContents(),
+        });
+        break;
+      case FormatNodeType.FILL: {
+        // Each separator is wrapped only if the content after it doesn't fit,
+        // as in the prettier printer.
+        const [content, separator, ...rest] = node.getNodes();
+        if (content === undefined) break;
+        const flatContent = {
+          indentLevel,
+          wrapType: WrapType.DETECT,
+          node: content,
+        };
+        const contentFits = fits(state, flatContent, [], true);
+        if (separator === undefined) {
+          commands.push(
+            contentFits
+              ? flatContent
+              : { ...flatContent, wrapType: WrapType.ENABLE }
+          );
+          break;
+        }
+        const flatSeparator = { ...flatContent, node: separator };
+        const wrappedSeparator = {
+          ...flatSeparator,
+          wrapType: WrapType.ENABLE,
+        };
+        if (rest.length === 0) {
+          commands.push(
+            contentFits ? flatSeparator : wrappedSeparator,
+            contentFits
+              ? flatContent
+              : { ...flatContent, wrapType: WrapType.ENABLE }
+          );
+          break;
+        }
+        const remaining = {
+          indentLevel,
+          wrapType,
+          node: FormatNode.makeFill(rest),
+        };
+        const pairFits = fits(
+          state,
+          {
+            ...flatContent,
+            node: FormatNode.makeNodes([content, separator, rest[0]]),
+          },
+          [],
+          true
+        );
+        commands.push(remaining);
+        if (pairFits) {
+          commands.push(flatSeparator, flatContent);
+        } else if (contentFits) {
+          commands.push(wrappedSeparator, flatContent);
+        } else {
+          commands.push(wrappedSeparator, {
+            ...flatContent,
+            wrapType: WrapType.ENABLE,
+          });
+        }
+        break;
       }
-    // Fallthrough.
-    case FormatNodeType.NODES:
-      node.getNodes().forEach((child) => formatNode(state, child, wrapType));
-      break;
-    case FormatNodeType.INDENT:
-      const needsIndent = wrapType === WrapType.ENABLE;
-      if (needsIndent) {
-        // Indent.
-        state.indentLevel++;
-        insertText(state, state.TAB);
+      case FormatNodeType.TABLE: {
+        const rowIndentWidth = state.TAB.length * (indentLevel + 1);
+        const table = {
+          indentLevel,
+          wrapType: WrapType.ENABLE,
+          node: FormatNode.makeNodes(node.getNodes()),
+        };
+        const fallback = { indentLevel, wrapType, node: node.getFallback() };
+        if (
+          wrapType === WrapType.ENABLE &&
+          !fits(state, { ...fallback, wrapType: WrapType.DETECT }, commands) &&
+          rowIndentWidth + node.getRowWidth() <= state.LINE_WIDTH
+        ) {
+          commands.push(table);
+        } else {
+          commands.push(fallback);
+        }
+        break;
       }
-      // Process child nodes.
-      node.getNodes().forEach((child) => formatNode(state, child, wrapType));
-      if (needsIndent) {
-        // Dedent.
-        state.indentLevel--;
+      default:
+        const checkExhaustive: never = node.type;
+        throw new Error(`Unhandled node type: ${checkExhaustive}`);
+    }
+  }
+}
+
+/**
+ * Returns whether the `next` node fits on the rest of the current line, along
+ * with the nodes after it up to the next line break. The nodes after it are
+ * taken from the top of `restCommands`.
+ *
+ * If `mustBeFlat` is true, groups that must break don't fit.
+ */
+function fits(
+  state: FormatState,
+  next: FormatCommand,
+  restCommands: FormatCommand[],
+  mustBeFlat = false
+): boolean {
+  let width = state.LINE_WIDTH - state.currLineWidth;
+  let restIndex = restCommands.length;
+  const commands: Array<Pick<FormatCommand, "wrapType" | "node">> = [next];
+  while (width >= 0) {
+    if (commands.length === 0) {
+      if (restIndex === 0) return true;
+      commands.push(restCommands[--restIndex]);
+      continue;
+    }
+    const { wrapType, node } = commands.pop()!;
+    const pushNodes = (nodes: FormatNode[], childWrapType = wrapType) => {
+      for (let i = nodes.length - 1; i >= 0; i--) {
+        commands.push({ wrapType: childWrapType, node: nodes[i] });
       }
-      break;
-    case FormatNodeType.TEXT:
-      insertText(state, node.getText());
-      break;
-    case FormatNodeType.SPACE_OR_LINE:
-      if (wrapType === WrapType.ENABLE) {
-        insertLine(state);
-      } else {
-        insertText(state, SPACE);
+    };
+    switch (node.type) {
+      case FormatNodeType.NODES:
+      case FormatNodeType.FILL:
+        pushNodes(node.getNodes());
+        break;
+      case FormatNodeType.GROUP: {
+        if (mustBeFlat && node.getShouldBreak()) return false;
+        pushNodes(
+          node.getNodes(),
+          node.getShouldBreak() ? WrapType.ENABLE : wrapType
+        );
+        break;
       }
-      break;
-    case FormatNodeType.LINE:
-      if (wrapType === WrapType.ENABLE) {
-        insertLine(state);
+      case FormatNodeType.CONDITIONAL_GROUP: {
+        const layouts = node.getNodes();
+        commands.push({
+          wrapType,
+          node:
+            wrapType === WrapType.ENABLE
+              ? layouts[layouts.length - 1]
+              : layouts[0],
+        });
+        break;
       }
-      break;
-    default:
-      const checkExhaustive: never = node.type;
-      throw new Error(`Unhandled node type: ${checkExhaustive}`);
+      case FormatNodeType.INDENT:
+        if (wrapType === WrapType.ENABLE) {
+          width -= state.TAB.length;
+        }
+        pushNodes(node.getNodes());
+        break;
+      case FormatNodeType.TEXT: {
+        const text = node.getText();
+        const newlineIndex = text.indexOf(NEWLINE);
+        if (newlineIndex >= 0) {
+          // Only the text up to the line break has to fit.
+          return newlineIndex <= width;
+        }
+        width -= text.length;
+        break;
+      }
+      case FormatNodeType.SPACE_OR_LINE:
+        if (wrapType === WrapType.ENABLE) return true;
+        width -= SPACE.length;
+        break;
+      case FormatNodeType.LINE:
+        if (wrapType === WrapType.ENABLE) return true;
+        break;
+      case FormatNodeType.IF_BREAK:
+        commands.push({
+          wrapType,
+          node:
+            wrapType === WrapType.ENABLE
+              ? node.getBreakContents()
+              : node.getFlatContents(),
+        });
+        break;
+      case FormatNodeType.TABLE:
+        if (wrapType === WrapType.ENABLE) {
+          pushNodes(node.getNodes());
+        } else {
+          commands.push({ wrapType, node: node.getFallback() });
+        }
+        break;
+      default:
+        const checkExhaustive: never = node.type;
+        throw new Error(`Unhandled node type: ${checkExhaustive}`);
+    }
   }
+  return false;
 }
 
 function insertText(state: FormatState, text: string) {
   if (text.length === 0) return;
-  state.linesBuffer[state.linesBuffer.length - 1].push(text);
-  state.currLineWidth += text.length;
+  // Text can span multiple lines (such as strings), in which case the following
+  // lines are inserted as-is, without indentation.
+  const [firstLine, ...restLines] = text.split(NEWLINE);
+  state.linesBuffer[state.linesBuffer.length - 1].push(firstLine);
+  state.currLineWidth += firstLine.length;
+  for (const line of restLines) {
+    state.linesBuffer.push([line]);
+    state.currLineWidth = line.length;
+  }
 }
 
-function insertLine(state: FormatState) {
+function insertLine(state: FormatState, indentLevel: number) {
   // Start new line with the proper indentation level.
-  const newLineTab = state.TAB.repeat(state.indentLevel);
+  const newLineTab = state.TAB.repeat(indentLevel);
   state.linesBuffer.push([newLineTab]);
   state.currLineWidth = newLineTab.length;
 }
@@ -1,27 +1,72 @@
 import {
   Expression,
   ExpressionList,
+  ExpressionType,
+  getOperatorPrecedence,
   ParseResult,
   Term,
   TermType,
 } from "./parse";
-import { Token } from "./tokens";
+import { Token, TokenType } from "./tokens";
+import { UserPreferences } from "../app/preferences";
+import { getFunctionSignature, matchArguments } from "../functions/catalog";
+
+// Skipped tokens that are written without a space before or after them.
+const NO_SPACE_BEFORE_TYPES: Array<TokenType | null> = [
+  TokenType.COMMA,
+  TokenType.SEMICOLON,
+  TokenType.BACKSLASH,
+  TokenType.R_PAREN,
+  TokenType.R_BRACKET,
+];
+const NO_SPACE_AFTER_TYPES: Array<TokenType | null> = [
+  TokenType.L_PAREN,
+  TokenType.L_BRACKET,
+];
 
 export enum WrapType {
   ENABLE,
   DETECT,
 }
 
+/** Where binary operators go when an expression is wrapped. */
+export enum OperatorPosition {
+  /** At the end of the line before the break, such as `A1 +`. */
+  TRAILING = "TRAILING",
+  /** At the start of the line after the break, such as `+ B1`. */
+  LEADING = "LEADING",
+}
+
+/** Returns a display name for the given operator position. */
+export function operatorPositionDisplayName(
+  position: OperatorPosition
+): string {
+  switch (position) {
+    case OperatorPosition.TRAILING:
+      return "End of line";
+    case OperatorPosition.LEADING:
+      return "Start of line";
+  }
+}
+
 export enum FormatNodeType {
   /**
    * A list of nodes to be formatted.
    */
   NODES = "NODES",
   /**
-   * A group to be formatted. If the entire group fits on one line, it is
-   * rendered as such; otherwise, the nodes are wrapped.
+   * A group to be formatted. If the entire group fits on one line (along with
+   * the text after it up to the next line break), it is rendered as such;
+   * otherwise, the nodes are wrapped. A group that must break is always
+   * wrapped.
    */
   GROUP = "GROUP",
+  /**
+   * Alternative layouts of the same nodes, from the most compact to the most
+   * expanded. The first layout that fits up to its first line break is
+   * rendered; if none do, the last layout is rendered wrapped.
+   */
+  CONDITIONAL_GROUP = "CONDITIONAL_GROUP",
   /**
    * A list of nodes to be formatted. If this node is in a group that was
    * wrapped, each line will be indented.
@@ -41,6 +86,23 @@ export enum FormatNodeType {
    * wrapped (if not, does not render as anything).
    */
   LINE = "LINE",
+  /**
+   * A child node of a group that renders one node if the group is wrapped and
+   * another node if it is not.
+   */
+  IF_BREAK = "IF_BREAK",
+  /**
+   * Alternating content and separator nodes, where each separator is wrapped
+   * only if the content after it doesn't fit on the line. This fills each line
+   * with as much content as possible, like the words in a paragraph.
+   */
+  FILL = "FILL",
+  /**
+   * An array literal or argument list laid out as a table, with each row on
+   * its own line. If the widest row doesn't fit on the line, the fallback node
+   * is rendered instead.
+   */
+  TABLE = "TABLE",
 }
 
 export class FormatNode {
@@ -50,6 +112,9 @@ export class FormatNode {
     private readonly data: {
       nodes?: FormatNode[];
       text?: string;
+      shouldBreak?: boolean;
+      fallback?: FormatNode;
+      rowWidth?: number;
     }
   ) {
     this.width = (() => {
@@ -57,28 +122,38 @@ export class FormatNode {
         case FormatNodeType.NODES:
         case FormatNodeType.GROUP:
         case FormatNodeType.INDENT:
+        case FormatNodeType.FILL:
+        case FormatNodeType.TABLE:
           return (
             this.getNodes().reduce((total, node) => total + node.width, 0) ?? 0
           );
+        case FormatNodeType.CONDITIONAL_GROUP:
+          return this.getNodes()[0].width;
         case FormatNodeType.TEXT:
           return this.getText().length;
         case FormatNodeType.SPACE_OR_LINE:
           return 1;
         case FormatNodeType.LINE:
           return 0;
+        case FormatNodeType.IF_BREAK:
+          return this.getFlatContents().width;
       }
     })();
   }
 
-  /** The full width of this node. */
+  /** The full width of this node, if it is not wrapped. */
   readonly width: number;
 
   static makeNodes(nodes: FormatNode[]): FormatNode {
     return new FormatNode(FormatNodeType.NODES, { nodes });
   }
 
-  static makeGroup(nodes: FormatNode[]): FormatNode {
-    return new FormatNode(FormatNodeType.GROUP, { nodes });
+  static makeGroup(nodes: FormatNode[], shouldBreak = false): FormatNode {
+    return new FormatNode(FormatNodeType.GROUP, { nodes, shouldBreak });
+  }
+
+  static makeConditionalGroup(layouts: FormatNode[]): FormatNode {
+    return new FormatNode(FormatNodeType.CONDITIONAL_GROUP, { nodes: layouts });
   }
 
   static makeIndent(nodes: FormatNode[]): FormatNode {
@@ -101,10 +176,32 @@ export class FormatNode {
     return new FormatNode(FormatNodeType.LINE, {});
   }
 
+  static makeIfBreak(
+    breakContents: FormatNode,
+    flatContents = FormatNode.makeText("")
+  ): FormatNode {
+    return new FormatNode(FormatNodeType.IF_BREAK, {
+      nodes: [breakContents, flatContents],
+    });
+  }
+
+  static makeFill(nodes: FormatNode[]): FormatNode {
+    return new FormatNode(FormatNodeType.FILL, { nodes });
+  }
+
+  static makeTable(
+    nodes: FormatNode[],
+    fallback: FormatNode,
+    rowWidth: number
+  ): FormatNode {
+    return new FormatNode(FormatNodeType.TABLE, { nodes, fallback, rowWidth });
+  }
+
   /**
-   * Gets the list of nodes.
+   * Gets the list of nodes. For a conditional group, these are its layouts.
    *
-   * Type must be `NODES`, `GROUP`, or `INDENT`.
+   * Type must be `NODES`, `GROUP`, `CONDITIONAL_GROUP`, `INDENT`, `FILL`, or
+   * `TABLE`.
    */
   getNodes(): FormatNode[] {
     return this.data.nodes!;
@@ -113,116 +210,564 @@ export class FormatNode {
   /**
    * Gets the text.
    *
-   * Type must be `STRING`.
+   * Type must be `TEXT`.
    */
   getText(): string {
     return this.data.text!;
   }
+
+  /**
+   * Gets whether the group must be wrapped, even if it fits on one line.
+   *
+   * Type must be `GROUP`.
+   */
+  getShouldBreak(): boolean {
+    return this.data.shouldBreak!;
+  }
+
+  /**
+   * Gets the node to render if the group is wrapped.
+   *
+   * Type must be `IF_BREAK`.
+   */
+  getBreakContents(): FormatNode {
+    return this.data.nodes![0];
+  }
+
+  /**
+   * Gets the node to render if the group is not wrapped.
+   *
+   * Type must be `IF_BREAK`.
+   */
+  getFlatContents(): FormatNode {
+    return this.data.nodes![1];
+  }
+
+  /**
+   * Gets the node to render if the table layout doesn't fit.
+   *
+   * Type must be `TABLE`.
+   */
+  getFallback(): FormatNode {
+    return this.data.fallback!;
+  }
+
+  /**
+   * Gets the width of the widest row in the table layout.
+   *
+   * Type must be `TABLE`.
+   */
+  getRowWidth(): number {
+    return this.data.rowWidth!;
+  }
 }
 
 /** Builds a format node from a parsed expression. */
-export function buildFormatNode(parseResult: ParseResult): FormatNode {
+export function buildFormatNode(
+  parseResult: ParseResult,
+  userPreferences: UserPreferences
+): FormatNode {
   const { expression } = parseResult;
   if (expression === null) {
     return FormatNode.makeText("");
   }
-  return buildExpression(expression);
+  return buildExpression(expression, userPreferences);
 }
 
-function buildExpression(expression: Expression): FormatNode {
+function buildExpression(
+  expression: Expression,
+  userPreferences: UserPreferences
+): FormatNode {
+  if (expression.type === ExpressionType.RECOVERED) {
+    return buildRecoveredExpression(expression, userPreferences);
+  }
+  // Operators that bind tighter are grouped together, so the loosest operators
+  // are wrapped first.
   const {
-    terms: [initialTerm, ...terms],
+    operands: [initialNode, ...nodes],
     operatorTokens,
-  } = expression;
+  } = flattenOperatorChain(expression);
+  const buildOperand = (operand: Expression) =>
+    operand.type === ExpressionType.TERM
+      ? buildTerm(operand.term!, userPreferences)
+      : buildExpression(operand, userPreferences);
+  const leading = userPreferences.operatorPosition === OperatorPosition.LEADING;
   return FormatNode.makeGroup(
-    [buildTerm(initialTerm)].concat(
-      operatorTokens.flatMap((operator, i) => [
-        FormatNode.makeText(" "),
-        FormatNode.makeTokenText(operator),
-        FormatNode.makeSpaceOrLine(),
-        buildTerm(terms[i]),
-      ])
+    [buildOperand(initialNode)].concat(
+      operatorTokens.flatMap((operator, i) =>
+        leading
+          ? [
+              FormatNode.makeSpaceOrLine(),
+              FormatNode.makeTokenText(operator),
+              FormatNode.makeText(" "),
+              buildOperand(nodes[i]),
+            ]
+          : [
+              FormatNode.makeText(" "),
+              FormatNode.makeTokenText(operator),
+              FormatNode.makeSpaceOrLine(),
+              buildOperand(nodes[i]),
+            ]
+      )
     )
   );
 }
 
-function buildExpressionList(expressionList: ExpressionList): FormatNode {
+/**
+ * Builds an expression with unparsed tokens, which are kept as-is and
+ * separated by spaces. As in parsed expressions, there is no space before a
+ * separator or closing bracket, or after an opening bracket.
+ */
+function buildRecoveredExpression(
+  expression: Expression,
+  userPreferences: UserPreferences
+): FormatNode {
+  const { expression: parsed, skippedTokens, rest } = expression.recovered!;
+  const items: Array<{ node: FormatNode; tokenType: TokenType | null }> = [];
+  if (parsed !== null) {
+    items.push({
+      node: buildExpression(parsed, userPreferences),
+      tokenType: null,
+    });
+  }
+  for (const token of skippedTokens) {
+    items.push({
+      node: FormatNode.makeTokenText(token),
+      tokenType: token.type,
+    });
+  }
+  if (rest !== null) {
+    items.push({
+      node: buildExpression(rest, userPreferences),
+      tokenType: null,
+    });
+  }
+  return FormatNode.makeNodes(
+    items.flatMap(({ node, tokenType }, i) => {
+      const prevTokenType = items[i - 1]?.tokenType ?? null;
+      const needsSpace =
+        i > 0 &&
+        !NO_SPACE_BEFORE_TYPES.includes(tokenType) &&
+        !NO_SPACE_AFTER_TYPES.includes(prevTokenType);
+      return needsSpace ? [FormatNode.makeText(" "), node] : [node];
+    })
+  );
+}
+
+/**
+ * Flattens the operators in an expression that have the same precedence as
+ * its outermost operator, such as the `+` and `-` in `A1 * B1 + C1 - D1`. The
+ * operands are the expressions between them, in source order.
+ */
+function flattenOperatorChain(expression: Expression): {
+  operands: Expression[];
+  operatorTokens: Token[];
+} {
+  if (expression.type !== ExpressionType.BINARY_OP) {
+    return { operands: [expression], operatorTokens: [] };
+  }
+  const { left, operatorToken, right } = expression.binaryOp!;
+  // Operators are left-associative, so only the left side can have operators
+  // with the same precedence.
+  const precedence = getOperatorPrecedence(operatorToken.type);
+  const leftChain =
+    left.type === ExpressionType.BINARY_OP &&
+    getOperatorPrecedence(left.binaryOp!.operatorToken.type) === precedence
+      ? flattenOperatorChain(left)
+      : { operands: [left], operatorTokens: [] };
+  return {
+    operands: leftChain.operands.concat(right),
+    operatorTokens: leftChain.operatorTokens.concat(operatorToken),
+  };
+}
+
+/**
+ * Builds a comma-separated list of expressions. If the list is wrapped, each
+ * expression is put on its own line, except that the expression at each index
+ * in `pairStarts` stays on the same line as the one after it. The expression
+ * after each index in `padWidths` is padded by that width when wrapped.
+ */
+function buildExpressionList(
+  expressionList: ExpressionList,
+  userPreferences: UserPreferences,
+  pairStarts: Set<number> = new Set(),
+  exprNodes = buildExpressionNodes(expressionList, userPreferences),
+  padWidths: Map<number, number> = new Map()
+): FormatNode {
   const { expressions, commaTokens } = expressionList;
   if (expressions.length === 0) {
     // Return a blank node so that this empty expression list does not render.
     return FormatNode.makeText("");
   }
   const nodes = [];
-  if (expressions[0] !== null) {
-    nodes.push(buildExpression(expressions[0]));
+  if (exprNodes[0] !== null) {
+    nodes.push(exprNodes[0]);
   }
   for (let i = 0; i < commaTokens.length; i++) {
     nodes.push(FormatNode.makeTokenText(commaTokens[i]));
-    const expr = expressions[i + 1];
-    if (expr !== null) {
-      nodes.push(FormatNode.makeSpaceOrLine());
-      nodes.push(buildExpression(expr));
+    const exprNode = exprNodes[i + 1];
+    if (exprNode !== null) {
+      if (pairStarts.has(i)) {
+        nodes.push(FormatNode.makeText(" "));
+        const padWidth = padWidths.get(i);
+        if (padWidth !== undefined) {
+          nodes.push(makePad(padWidth));
+        }
+      } else {
+        nodes.push(FormatNode.makeSpaceOrLine());
+      }
+      nodes.push(exprNode);
     }
   }
   return FormatNode.makeGroup(nodes);
 }
 
-function buildTerm(term: Term): FormatNode {
+/**
+ * Gets the widths to pad the second expressions of the pairs by so that they
+ * line up in a column. Pairs too wide to fit on a line even without padding
+ * are left out, since they will break anyway. Also returns the width of the
+ * widest padded pair, including its separator, or null if fewer than two
+ * pairs can be aligned.
+ */
+function getPairPadWidths(
+  expressionList: ExpressionList,
+  userPreferences: UserPreferences,
+  pairStarts: Set<number>,
+  exprNodes: (FormatNode | null)[]
+): { padWidths: Map<number, number>; rowWidth: number } | null {
+  const { commaTokens } = expressionList;
+  const maxWidth = userPreferences.lineWidth - userPreferences.tabSpaces;
+  const pairs = [];
+  for (const i of pairStarts) {
+    const keyWidth = exprNodes[i]?.width ?? 0;
+    const valueNode = exprNodes[i + 1];
+    if (valueNode === null || valueNode === undefined) {
+      continue;
+    }
+    const separatorWidth = i + 1 < commaTokens.length ? 1 : 0;
+    const valueWidth = valueNode.width + separatorWidth;
+    if (keyWidth + 2 + valueWidth <= maxWidth) {
+      pairs.push({ i, keyWidth, valueWidth });
+    }
+  }
+  if (pairs.length < 2) {
+    return null;
+  }
+  const pairWidth = Math.max(...pairs.map(({ keyWidth }) => keyWidth));
+  const padWidths = new Map<number, number>();
+  let rowWidth = 0;
+  for (const { i, keyWidth, valueWidth } of pairs) {
+    padWidths.set(i, pairWidth - keyWidth);
+    rowWidth = Math.max(rowWidth, pairWidth + 2 + valueWidth);
+  }
+  return { padWidths, rowWidth };
+}
+
+/** Builds each expression in a list, or null for the empty ones. */
+function buildExpressionNodes(
+  expressionList: ExpressionList,
+  userPreferences: UserPreferences
+): (FormatNode | null)[] {
+  return expressionList.expressions.map((expr) =>
+    expr === null ? null : buildExpression(expr, userPreferences)
+  );
+}
+
+/**
+ * Builds the line break before a closing bracket, unless closing brackets are
+ * collapsed onto the line of the last item.
+ */
+function buildClosingLine(userPreferences: UserPreferences): FormatNode[] {
+  return userPreferences.collapseClosingBrackets ? [] : [FormatNode.makeLine()];
+}
+
+/**
+ * Builds a row of an array literal that fills each line with as many items as
+ * fit, rather than putting each item on its own line.
+ */
+function buildArrayRow(
+  row: ExpressionList,
+  exprNodes: (FormatNode | null)[]
+): FormatNode {
+  const { expressions, commaTokens } = row;
+  const parts = [];
+  for (let i = 0; i < expressions.length; i++) {
+    const content = [];
+    const exprNode = exprNodes[i];
+    if (exprNode !== null) {
+      content.push(exprNode);
+    }
+    if (i < commaTokens.length) {
+      content.push(FormatNode.makeTokenText(commaTokens[i]));
+    }
+    if (i > 0) {
+      parts.push(FormatNode.makeSpaceOrLine());
+    }
+    parts.push(FormatNode.makeNodes(content));
+  }
+  return FormatNode.makeFill(parts);
+}
+
+/**
+ * Builds the rows of an array literal as a table, with the columns padded so
+ * that they line up. Numbers are aligned to the right. Also returns the width
+ * of the widest row, including its separator.
+ */
+function buildArrayTable(
+  rows: ExpressionList[],
+  semicolonTokens: Token[],
+  rowNodes: (FormatNode | null)[][]
+): { tableNodes: FormatNode[]; rowWidth: number } {
+  const colWidths: number[] = [];
+  for (const nodes of rowNodes) {
+    nodes.forEach((node, col) => {
+      colWidths[col] = Math.max(colWidths[col] ?? 0, node?.width ?? 0);
+    });
+  }
+  const tableNodes = [];
+  let rowWidth = 0;
+  for (let r = 0; r < rows.length; r++) {
+    if (r > 0) {
+      tableNodes.push(
+        FormatNode.makeTokenText(semicolonTokens[r - 1]),
+        FormatNode.makeLine()
+      );
+    }
+    const { expressions, commaTokens } = rows[r];
+    let width = 1;
+    for (let col = 0; col < expressions.length; col++) {
+      const node = rowNodes[r][col];
+      const padWidth = colWidths[col] - (node?.width ?? 0);
+      const alignRight = isNumberExpression(expressions[col]);
+      if (alignRight) {
+        tableNodes.push(makePad(padWidth));
+      }
+      if (node !== null) {
+        tableNodes.push(node);
+      }
+      if (col < commaTokens.length) {
+        tableNodes.push(
+          FormatNode.makeTokenText(commaTokens[col]),
+          FormatNode.makeText(" ")
+        );
+        if (!alignRight) {
+          tableNodes.push(makePad(padWidth));
+        }
+      }
+      width += colWidths[col] + (col < commaTokens.length ? 2 : 0);
+    }
+    rowWidth = Math.max(rowWidth, width);
+  }
+  return { tableNodes, rowWidth };
+}
+
+/** Returns whether an expression is a number, such as `-1.5` or `10%`. */
+function isNumberExpression(expression: Expression | null): boolean {
+  if (expression === null || expression.type !== ExpressionType.TERM) {
+    return false;
+  }
+  return isNumberTerm(expression.term!);
+}
+
+function isNumberTerm(term: Term): boolean {
+  switch (term.type) {
+    case TermType.LITERAL:
+      return term.literal!.type === TokenType.NUMBER;
+    case TermType.UNARY_OP:
+      return isNumberTerm(term.unaryOp!.operand);
+    case TermType.POSTFIX_OP:
+      return isNumberTerm(term.postfixOp!.operand);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Returns whether the last argument of a call can be hugged, which is when it
+ * is itself a call or an array literal.
+ */
+function canHug(args: ExpressionList): boolean {
+  const last = args.expressions[args.expressions.length - 1];
+  return (
+    last !== null &&
+    last.type === ExpressionType.TERM &&
+    (last.term!.type === TermType.CALL ||
+      last.term!.type === TermType.ARRAY_LITERAL)
+  );
+}
+
+/** Builds spaces that align the text after them if the group is wrapped. */
+function makePad(width: number): FormatNode {
+  return FormatNode.makeIfBreak(FormatNode.makeText(" ".repeat(width)));
+}
+
+/**
+ * Returns the indices of the arguments that start a pair, such as the
+ * conditions in `IFS(condition1, value1, condition2, value2)`. Pairs are the
+ * repeating groups of two parameters in the function's signature.
+ */
+function getArgumentPairStarts(
+  functionName: string,
+  numArgs: number
+): Set<number> {
+  const pairStarts = new Set<number>();
+  const signature = getFunctionSignature(functionName);
+  if (signature === null) return pairStarts;
+  const group = signature.parameters.filter((param) => param.repeating);
+  if (group.length !== 2) return pairStarts;
+  // If the number of arguments is wrong, it's unclear which arguments pair up.
+  const parameters = matchArguments(signature, numArgs) ?? [];
+  for (let i = 0; i + 1 < parameters.length; i++) {
+    if (parameters[i] === group[0] && parameters[i + 1] === group[1]) {
+      pairStarts.add(i);
+    }
+  }
+  return pairStarts;
+}
+
+function buildTerm(term: Term, userPreferences: UserPreferences): FormatNode {
   switch (term.type) {
     case TermType.LITERAL:
       return FormatNode.makeNodes([FormatNode.makeTokenText(term.literal!)]);
     case TermType.UNARY_OP: {
       const { operatorToken, operand } = term.unaryOp!;
       return FormatNode.makeNodes(
-        [FormatNode.makeTokenText(operatorToken)].concat(buildTerm(operand))
+        [FormatNode.makeTokenText(operatorToken)].concat(
+          buildTerm(operand, userPreferences)
+        )
       );
     }
+    case TermType.POSTFIX_OP: {
+      const { operand, operatorToken } = term.postfixOp!;
+      return FormatNode.makeNodes([
+        buildTerm(operand, userPreferences),
+        FormatNode.makeTokenText(operatorToken),
+      ]);
+    }
+    case TermType.RANGE_OP: {
+      const { left, colonToken, right } = term.rangeOp!;
+      return FormatNode.makeNodes([
+        buildTerm(left, userPreferences),
+        FormatNode.makeTokenText(colonToken),
+        buildTerm(right, userPreferences),
+      ]);
+    }
     case TermType.ARRAY_LITERAL: {
       const { leftBracketToken, rows, semicolonTokens, rightBracketToken } =
         term.arrayLiteral!;
-      const nodes = [FormatNode.makeTokenText(leftBracketToken)];
-      if (rows.length > 0) {
-        const indentNodes = [];
-        if (rows[0].expressions.length > 0) {
-          indentNodes.push(buildExpressionList(rows[0]));
-        }
-        for (let i = 0; i < semicolonTokens.length; i++) {
-          indentNodes.push(FormatNode.makeTokenText(semicolonTokens[i]));
-          const row = rows[i + 1];
-          if (row.expressions.length > 0) {
-            indentNodes.push(FormatNode.makeSpaceOrLine());
-            indentNodes.push(buildExpressionList(row));
-          }
-        }
-        nodes.push(
-          FormatNode.makeLine(),
-          FormatNode.makeIndent(indentNodes),
-          FormatNode.makeLine()
-        );
-      }
+      const openingNode = FormatNode.makeTokenText(leftBracketToken);
+      const closingNodes = [];
       if (rightBracketToken !== undefined) {
-        nodes.push(FormatNode.makeTokenText(rightBracketToken));
+        closingNodes.push(FormatNode.makeTokenText(rightBracketToken));
       }
-      return FormatNode.makeGroup(nodes);
+      if (rows.length === 0) {
+        return FormatNode.makeGroup([openingNode, ...closingNodes]);
+      }
+      const rowNodes = rows.map((row) =>
+        buildExpressionNodes(row, userPreferences)
+      );
+      const indentNodes = [];
+      if (rows[0].expressions.length > 0) {
+        indentNodes.push(buildArrayRow(rows[0], rowNodes[0]));
+      }
+      for (let i = 0; i < semicolonTokens.length; i++) {
+        indentNodes.push(FormatNode.makeTokenText(semicolonTokens[i]));
+        const row = rows[i + 1];
+        if (row.expressions.length > 0) {
+          indentNodes.push(FormatNode.makeSpaceOrLine());
+          indentNodes.push(buildArrayRow(row, rowNodes[i + 1]));
+        }
+      }
+      const group = FormatNode.makeGroup([
+        openingNode,
+        FormatNode.makeLine(),
+        FormatNode.makeIndent(indentNodes),
+        ...buildClosingLine(userPreferences),
+        ...closingNodes,
+      ]);
+      const { tableNodes, rowWidth } = buildArrayTable(
+        rows,
+        semicolonTokens,
+        rowNodes
+      );
+      return FormatNode.makeTable(
+        [
+          openingNode,
+          FormatNode.makeLine(),
+          FormatNode.makeIndent(tableNodes),
+          ...buildClosingLine(userPreferences),
+          ...closingNodes,
+        ],
+        group,
+        rowWidth
+      );
     }
     case TermType.CALL: {
       const { functionToken, leftParenToken, args, rightParenToken } =
         term.call!;
-      const nodes = [
+      const openingNodes = [
         FormatNode.makeTokenText(functionToken),
         FormatNode.makeTokenText(leftParenToken),
       ];
-      if (args.expressions.length > 0) {
-        nodes.push(
+      const closingNodes: FormatNode[] = [];
+      if (rightParenToken !== undefined) {
+        closingNodes.push(FormatNode.makeTokenText(rightParenToken));
+      }
+      if (args.expressions.length === 0) {
+        return FormatNode.makeGroup([...openingNodes, ...closingNodes]);
+      }
+      const exprNodes = buildExpressionNodes(args, userPreferences);
+      const pairStarts = getArgumentPairStarts(
+        functionToken.content,
+        args.expressions.length
+      );
+      const buildGroup = (padWidths?: Map<number, number>) =>
+        FormatNode.makeGroup([
+          ...openingNodes,
           FormatNode.makeLine(),
-          FormatNode.makeIndent([buildExpressionList(args)]),
-          FormatNode.makeLine()
-        );
+          FormatNode.makeIndent([
+            buildExpressionList(
+              args,
+              userPreferences,
+              pairStarts,
+              exprNodes,
+              padWidths
+            ),
+          ]),
+          ...buildClosingLine(userPreferences),
+          ...closingNodes,
+        ]);
+      let group = buildGroup();
+      const pairPadWidths = userPreferences.alignArgumentPairs
+        ? getPairPadWidths(args, userPreferences, pairStarts, exprNodes)
+        : null;
+      if (pairPadWidths !== null) {
+        // Align the pairs into a column only if every padded pair fits on its
+        // line, and otherwise fall back to the unaligned layout.
+        const { padWidths, rowWidth } = pairPadWidths;
+        group = FormatNode.makeTable([buildGroup(padWidths)], group, rowWidth);
       }
-      if (rightParenToken !== undefined) {
-        nodes.push(FormatNode.makeTokenText(rightParenToken));
+      if (!userPreferences.hugLastArgument || !canHug(args)) {
+        return group;
       }
-      return FormatNode.makeGroup(nodes);
+      // Keep the other arguments on the first line and wrap only the last
+      // argument, such as `IF(A1, SUM(` followed by the arguments of `SUM`.
+      const lastNode = exprNodes[exprNodes.length - 1]!;
+      const nodes = [...openingNodes];
+      for (let i = 0; i < args.commaTokens.length; i++) {
+        const exprNode = exprNodes[i];
+        if (exprNode !== null) {
+          nodes.push(exprNode);
+        }
+        nodes.push(FormatNode.makeTokenText(args.commaTokens[i]));
+        nodes.push(FormatNode.makeText(" "));
+      }
+      nodes.push(FormatNode.makeGroup([lastNode], true), ...closingNodes);
+      return FormatNode.makeConditionalGroup([
+        group,
+        FormatNode.makeNodes(nodes),
+        group,
+      ]);
     }
     case TermType.PARENTHESIZED: {
       const { leftParenToken, expression, rightParenToken } =
@@ -230,8 +775,8 @@ function buildTerm(term: Term): FormatNode {
       const nodes = [
         FormatNode.makeTokenText(leftParenToken),
         FormatNode.makeLine(),
-        FormatNode.makeIndent([buildExpression(expression)]),
-        FormatNode.makeLine(),
+        FormatNode.makeIndent([buildExpression(expression, userPreferences)]),
+        ...buildClosingLine(userPreferences),
       ];
       if (rightParenToken !== undefined) {
         nodes.push(FormatNode.makeTokenText(rightParenToken));
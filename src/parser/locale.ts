@@ -0,0 +1,39 @@
+/** The locale conventions for writing formulas. */
+export enum Locale {
+  /** Commas separate arguments and periods are decimal points. */
+  US = "US",
+  /** Semicolons separate arguments and commas are decimal points. */
+  EU = "EU",
+}
+
+/** The separators used by a locale. */
+export interface LocaleSeparators {
+  /** The decimal point in numbers. */
+  decimal: string;
+  /** The separator between function arguments. */
+  argument: string;
+  /** The separator between columns in an array literal. */
+  arrayColumn: string;
+  /** The separator between rows in an array literal. */
+  arrayRow: string;
+}
+
+export const LOCALE_SEPARATORS: Record<Locale, LocaleSeparators> = {
+  [Locale.US]: { decimal: ".", argument: ",", arrayColumn: ",", arrayRow: ";" },
+  [Locale.EU]: {
+    decimal: ",",
+    argument: ";",
+    arrayColumn: "\\",
+    arrayRow: ";",
+  },
+};
+
+/** Returns a display name for the given locale. */
+export function localeDisplayName(locale: Locale): string {
+  switch (locale) {
+    case Locale.US:
+      return "United States (1.5, commas)";
+    case Locale.EU:
+      return "Europe (1,5, semicolons)";
+  }
+}
@@ -1,26 +1,56 @@
 import {
-  OPERATORS,
+  getEndTrivia,
   parseTokens,
   Token,
   TokenErrorType,
   TokenType,
+  POSTFIX_OPERATORS,
   UNARY_OPERATORS,
 } from "./tokens";
+import { Dialect } from "./dialect";
+import { Locale } from "./locale";
 
-/** An expression. */
+/** The expression types. */
+export enum ExpressionType {
+  TERM = "TERM",
+  BINARY_OP = "BINARY_OP",
+  RECOVERED = "RECOVERED",
+}
+
+/**
+ * An expression.
+ *
+ * Invariant: Only the property corresponding with `type` will be set.
+ */
 export interface Expression {
+  /** The type of the expression. */
+  type: ExpressionType;
+  /** A single term. */
+  term?: Term;
+  /** A binary operator applied to two expressions. */
+  binaryOp?: {
+    /** The left operand. */
+    left: Expression;
+    /** The binary operator. */
+    operatorToken: Token;
+    /** The right operand. */
+    right: Expression;
+  };
   /**
-   * The terms in this expression.
-   *
-   * Invariant: `terms.length` >= 1
+   * An expression followed by tokens that could not be parsed. This is only at
+   * the top of an expression tree, never as an operand.
    */
-  terms: Term[];
-  /**
-   * The operators joining this terms.
-   *
-   * Invariant: `operatorTokens.length` === `terms.length` - 1
-   */
-  operatorTokens: Token[];
+  recovered?: {
+    /** The expression before the unexpected tokens, if any. */
+    expression: Expression | null;
+    /** The skipped tokens, starting with the unexpected token. */
+    skippedTokens: Token[];
+    /**
+     * The expression parsed after skipping the tokens. Only set at the top
+     * level of the formula, since otherwise the enclosing list continues.
+     */
+    rest: Expression | null;
+  };
 }
 
 /** A list of expressions, some of which may be null (empty). */
@@ -28,7 +58,8 @@ export interface ExpressionList {
   /** The expressions in this list. */
   expressions: Array<Expression | null>;
   /**
-   * The commas separating these arguments.
+   * The separators between these expressions. These are commas, unless the
+   * locale uses different separators.
    *
    * Invariants:
    *   `expressions.length` === 0 && `commaTokens.length` === 0; OR
@@ -41,6 +72,8 @@ export interface ExpressionList {
 export enum TermType {
   LITERAL = "LITERAL",
   UNARY_OP = "UNARY_OP",
+  POSTFIX_OP = "POSTFIX_OP",
+  RANGE_OP = "RANGE_OP",
   ARRAY_LITERAL = "ARRAY_LITERAL",
   CALL = "CALL",
   PARENTHESIZED = "PARENTHESIZED",
@@ -63,6 +96,22 @@ export interface Term {
     /** The operand. This can only be certain terms. */
     operand: Term;
   };
+  /** A postfix operator applied to a term. */
+  postfixOp?: {
+    /** The operand. */
+    operand: Term;
+    /** The postfix operator. */
+    operatorToken: Token;
+  };
+  /** A range between two references, such as `A1:INDEX(B:B, 5)`. */
+  rangeOp?: {
+    /** The start of the range. */
+    left: Term;
+    /** The range operator. */
+    colonToken: Token;
+    /** The end of the range. */
+    right: Term;
+  };
   /** An array literal. */
   arrayLiteral?: {
     /** The opening left bracket. */
@@ -122,22 +171,109 @@ export interface ParseResult {
   canFormatExpression: boolean;
   /** The expression. If null, the input was all whitespace. */
   expression: Expression | null;
+  /**
+   * The whitespace at the end of the input that is not attached to any token.
+   * Together with the trivia of `tokens`, this reproduces the input exactly.
+   */
+  endTrivia: string;
 }
 
+/**
+ * The binary operator precedence levels, from loosest to tightest. Unary
+ * operators bind tighter than all of these, so they are handled in `parseTerm`.
+ */
+const OPERATOR_PRECEDENCE_LEVELS = [
+  // Comparison.
+  [
+    TokenType.EQUAL,
+    TokenType.NOT_EQUAL,
+    TokenType.LESS,
+    TokenType.GREATER,
+    TokenType.LESS_OR_EQUAL,
+    TokenType.GREATER_OR_EQUAL,
+  ],
+  // Concatenation.
+  [TokenType.CONCAT],
+  // Additive.
+  [TokenType.PLUS, TokenType.MINUS],
+  // Multiplicative.
+  [TokenType.MULTIPLY, TokenType.DIVIDE],
+  // Exponentiation.
+  [TokenType.XOR],
+];
+
+/**
+ * Returns the precedence of the given binary operator, where higher values bind
+ * tighter. Returns null if the token type is not a binary operator.
+ */
+export function getOperatorPrecedence(type: TokenType): number | null {
+  const level = OPERATOR_PRECEDENCE_LEVELS.findIndex((types) =>
+    types.includes(type)
+  );
+  return level === -1 ? null : level;
+}
+
+/** The separator tokens used by each locale. */
+const LOCALE_SEPARATOR_TYPES: Record<
+  Locale,
+  { argument: TokenType; arrayColumn: TokenType; arrayRow: TokenType }
+> = {
+  [Locale.US]: {
+    argument: TokenType.COMMA,
+    arrayColumn: TokenType.COMMA,
+    arrayRow: TokenType.SEMICOLON,
+  },
+  [Locale.EU]: {
+    argument: TokenType.SEMICOLON,
+    arrayColumn: TokenType.BACKSLASH,
+    arrayRow: TokenType.SEMICOLON,
+  },
+};
+
+/** The prefixes that Excel adds to newer functions in saved formulas. */
+const EXCEL_FUNCTION_PREFIXES = ["_xlfn.", "_xlws."];
+
+/** The tokens that stray tokens at the top level are skipped through. */
+const TOP_LEVEL_SYNC_TYPES = [
+  TokenType.COMMA,
+  TokenType.SEMICOLON,
+  TokenType.BACKSLASH,
+  TokenType.R_PAREN,
+  TokenType.R_BRACKET,
+];
+
 interface ParseState {
   /** The parsed tokens. */
   tokens: Token[];
+  /** The separator tokens for the locale. */
+  separators: (typeof LOCALE_SEPARATOR_TYPES)[Locale];
+  /**
+   * For each enclosing bracketed construct, the separator and closing tokens
+   * that it can continue from. Used to resynchronize after an error.
+   */
+  syncStack: TokenType[][];
 }
 
 /** Parses the given lines. */
-export function parseLines(lines: string[]): ParseResult {
-  const state: ParseState = { tokens: parseTokens(lines) };
-  // formula := expressionOrEmpty
-  const [endIndex, expression] = parseExpressionOrEmpty(state, 0);
-  if (endIndex < state.tokens.length) {
-    setErrorTypeIfNull(state.tokens[endIndex], TokenErrorType.UNEXPECTED_TOKEN);
+export function parseLines(
+  lines: string[],
+  locale: Locale = Locale.US,
+  dialect: Dialect = Dialect.SHEETS
+): ParseResult {
+  const state: ParseState = {
+    tokens: parseTokens(lines, locale),
+    separators: LOCALE_SEPARATOR_TYPES[locale],
+    syncStack: [],
+  };
+  if (dialect === Dialect.SHEETS) {
+    for (const token of state.tokens) {
+      if (isExcelOnlyToken(token)) {
+        setErrorTypeIfNull(token, TokenErrorType.EXCEL_ONLY);
+      }
+    }
   }
-  let canFormatExpression = endIndex >= state.tokens.length;
+  const [, expression] = parseFormula(state, 0);
+  let canFormatExpression = true;
   const errors = [];
   for (const token of state.tokens) {
     if (token.type === TokenType.ERROR || token.errorType !== undefined) {
@@ -160,9 +296,36 @@ export function parseLines(lines: string[]): ParseResult {
     errors,
     canFormatExpression,
     expression,
+    endTrivia: getEndTrivia(lines, state.tokens),
   };
 }
 
+function parseFormula(
+  state: ParseState,
+  index: number
+): [number, Expression | null] {
+  // formula := expressionOrEmpty ( skippedTokens formula )?
+  const [endIndex, expression] = parseExpressionOrEmpty(state, index);
+  if (endIndex >= state.tokens.length) return [endIndex, expression];
+  // There are stray tokens. Skip past the next separator or closing bracket,
+  // then continue parsing the rest of the formula.
+  let [syncIndex, skippedTokens] = skipToSyncToken(state, endIndex, (token) =>
+    TOP_LEVEL_SYNC_TYPES.includes(token.type)
+  );
+  if (syncIndex < state.tokens.length) {
+    skippedTokens = skippedTokens.concat(state.tokens[syncIndex]);
+    syncIndex++;
+  }
+  const [restEndIndex, rest] = parseFormula(state, syncIndex);
+  return [
+    restEndIndex,
+    {
+      type: ExpressionType.RECOVERED,
+      recovered: { expression, skippedTokens, rest },
+    },
+  ];
+}
+
 function parseExpressionOrEmpty(
   state: ParseState,
   index: number
@@ -177,42 +340,50 @@ function parseExpressionOrEmpty(
 
 function parseExpression(
   state: ParseState,
-  index: number
+  index: number,
+  minPrecedence = 0
 ): [number, Expression] | null {
-  // expression := term ( op term )*
+  // expression := binaryExpression(0)
+  // binaryExpression(p) :=
+  //   term ( op(q) binaryExpression(q + 1) )*, where each q >= p
   if (index >= state.tokens.length) return null;
   const result = parseTerm(state, index);
   if (result === null) return null;
-  let [endIndex, firstTerm] = result;
-  const terms = [firstTerm];
-  const operatorTokens = [];
+  let [endIndex, term] = result;
+  let expression: Expression = { type: ExpressionType.TERM, term };
   // Match as many operations as possible.
   while (endIndex < state.tokens.length) {
     const opToken = state.tokens[endIndex];
-    if (!OPERATORS.includes(opToken.type)) break;
-    const nextTerm = parseTerm(state, endIndex + 1);
-    if (nextTerm === null) break;
-    operatorTokens.push(opToken);
-    terms.push(nextTerm[1]);
-    endIndex = nextTerm[0];
+    const precedence = getOperatorPrecedence(opToken.type);
+    if (precedence === null || precedence < minPrecedence) break;
+    // All binary operators are left-associative, so the right operand can only
+    // contain operators that bind tighter than this one.
+    const right = parseExpression(state, endIndex + 1, precedence + 1);
+    if (right === null) break;
+    expression = {
+      type: ExpressionType.BINARY_OP,
+      binaryOp: { left: expression, operatorToken: opToken, right: right[1] },
+    };
+    endIndex = right[0];
   }
-  return [endIndex, { terms, operatorTokens }];
+  return [endIndex, expression];
 }
 
 function parseExpressionList(
   state: ParseState,
-  index: number
+  index: number,
+  separatorType: TokenType
 ): [number, ExpressionList] {
-  // expressionList :=
-  //   expressionOrEmpty ( TokenType.COMMA expressionOrEmpty )*
-  let [endIndex, initialExpr] = parseExpressionOrEmpty(state, index);
+  // expressionList(separator) :=
+  //   expressionOrEmpty ( separator expressionOrEmpty )*
+  let [endIndex, initialExpr] = parseRecoveredExpressionOrEmpty(state, index);
   const expressions = [initialExpr];
   const commaTokens = [];
   while (endIndex < state.tokens.length) {
     const commaToken = state.tokens[endIndex];
-    if (commaToken.type !== TokenType.COMMA) break;
+    if (commaToken.type !== separatorType) break;
     commaTokens.push(commaToken);
-    const [newEndIndex, expression] = parseExpressionOrEmpty(
+    const [newEndIndex, expression] = parseRecoveredExpressionOrEmpty(
       state,
       endIndex + 1
     );
@@ -230,8 +401,183 @@ function parseExpressionList(
   return [endIndex, { expressions, commaTokens }];
 }
 
+/** Parses an expression in a list, recovering from unexpected tokens. */
+function parseRecoveredExpressionOrEmpty(
+  state: ParseState,
+  index: number
+): [number, Expression | null] {
+  const [endIndex, expression] = parseExpressionOrEmpty(state, index);
+  return recoverAfterExpression(state, endIndex, expression);
+}
+
+/**
+ * If the expression in a bracketed construct is followed by an unexpected
+ * token, skips to the next token that an enclosing construct can continue
+ * from.
+ */
+function recoverAfterExpression<T extends Expression | null>(
+  state: ParseState,
+  index: number,
+  expression: T
+): [number, T | Expression] {
+  if (index >= state.tokens.length || isSyncToken(state, state.tokens[index])) {
+    return [index, expression];
+  }
+  const [syncIndex, skippedTokens] = skipToSyncToken(state, index, (token) =>
+    isSyncToken(state, token)
+  );
+  return [
+    syncIndex,
+    {
+      type: ExpressionType.RECOVERED,
+      recovered: { expression, skippedTokens, rest: null },
+    },
+  ];
+}
+
+/** Returns whether any enclosing construct can continue from the token. */
+function isSyncToken(state: ParseState, token: Token): boolean {
+  return state.syncStack.some((types) => types.includes(token.type));
+}
+
+/**
+ * Marks the token at `index` as unexpected, then skips tokens until a sync
+ * token outside of any nested brackets. Returns the index of the sync token
+ * and the skipped tokens.
+ */
+function skipToSyncToken(
+  state: ParseState,
+  index: number,
+  isSync: (token: Token) => boolean
+): [number, Token[]] {
+  setErrorTypeIfNull(state.tokens[index], TokenErrorType.UNEXPECTED_TOKEN);
+  const skippedTokens = [];
+  let depth = 0;
+  let endIndex = index;
+  while (endIndex < state.tokens.length) {
+    const token = state.tokens[endIndex];
+    if (depth === 0 && isSync(token)) break;
+    if ([TokenType.L_PAREN, TokenType.L_BRACKET].includes(token.type)) {
+      depth++;
+    } else if (
+      [TokenType.R_PAREN, TokenType.R_BRACKET].includes(token.type) &&
+      depth > 0
+    ) {
+      depth--;
+    }
+    skippedTokens.push(token);
+    endIndex++;
+  }
+  return [endIndex, skippedTokens];
+}
+
 function parseTerm(state: ParseState, start: number): [number, Term] | null {
-  // term :=
+  // term := prefixTerm ( postfixOp )*
+  const result = parsePrefixTerm(state, start);
+  if (result === null) return null;
+  let [endIndex, term] = result;
+  // Match as many postfix operators as possible.
+  while (
+    endIndex < state.tokens.length &&
+    POSTFIX_OPERATORS.includes(state.tokens[endIndex].type)
+  ) {
+    term = {
+      type: TermType.POSTFIX_OP,
+      postfixOp: { operand: term, operatorToken: state.tokens[endIndex] },
+    };
+    endIndex++;
+  }
+  return [endIndex, term];
+}
+
+function parsePrefixTerm(
+  state: ParseState,
+  start: number
+): [number, Term] | null {
+  // prefixTerm :=
+  //  | unaryOp term
+  //  | rangeTerm
+  if (start >= state.tokens.length) return null;
+  const startToken = state.tokens[start];
+
+  // Unary operator.
+  if (
+    UNARY_OPERATORS.includes(startToken.type) &&
+    start < state.tokens.length - 1
+  ) {
+    // Get the operand term.
+    const operandTerm = parseTerm(state, start + 1);
+    if (operandTerm !== null) {
+      const [endIndex, operand] = operandTerm;
+      // Only allow certain terms to be the operand.
+      if (
+        (operand.type === TermType.LITERAL &&
+          [
+            TokenType.LITERAL,
+            TokenType.ERROR_LITERAL,
+            TokenType.IDENTIFIER,
+            TokenType.NUMBER,
+            TokenType.RANGE,
+            TokenType.STRUCTURED_REFERENCE,
+          ].includes(operand.literal!.type)) ||
+        [
+          TermType.POSTFIX_OP,
+          TermType.RANGE_OP,
+          TermType.CALL,
+          TermType.PARENTHESIZED,
+        ].includes(operand.type)
+      ) {
+        return [
+          endIndex,
+          {
+            type: TermType.UNARY_OP,
+            unaryOp: { operatorToken: startToken, operand },
+          },
+        ];
+      }
+      // Found a valid term, but this operator token is not valid for the term
+      // type.
+      setErrorTypeIfNull(startToken, TokenErrorType.INVALID_UNARY_OPERAND);
+    }
+  }
+
+  if (UNARY_OPERATORS.includes(startToken.type)) return null;
+  return parseRangeTerm(state, start);
+}
+
+function parseRangeTerm(
+  state: ParseState,
+  start: number
+): [number, Term] | null {
+  // rangeTerm := primaryTerm ( TokenType.COLON primaryTerm )*
+  const result = parsePrimaryTerm(state, start);
+  if (result === null) return null;
+  let [endIndex, term] = result;
+  // Match as many range operators as possible.
+  while (
+    endIndex < state.tokens.length &&
+    state.tokens[endIndex].type === TokenType.COLON
+  ) {
+    const right = parsePrimaryTerm(state, endIndex + 1);
+    if (right === null) break;
+    term = {
+      type: TermType.RANGE_OP,
+      rangeOp: {
+        left: term,
+        colonToken: state.tokens[endIndex],
+        right: right[1],
+      },
+    };
+    endIndex = right[0];
+  }
+  return [endIndex, term];
+}
+
+function parsePrimaryTerm(
+  state: ParseState,
+  start: number
+): [number, Term] | null {
+  // primaryTerm :=
   //  | arrayLiteral
   //  | functionCall
   //  | TokenType.L_PAREN expression TokenType.R_PAREN
@@ -242,7 +588,8 @@ function parseTerm(state: ParseState, start: number): [number, Term] | null {
   // Array literal.
   // arrayLiteral :=
   //   TokenType.L_BRACKET
-  //     expressionList ( TokenType.SEMICOLON expressionList )*
+  //     expressionList(arrayColumnSeparator)
+  //     ( arrayRowSeparator expressionList(arrayColumnSeparator) )*
   //   TokenType.R_BRACKET
   if (startToken.type === TokenType.L_BRACKET) {
     const term: Term = {
@@ -254,9 +601,15 @@ function parseTerm(state: ParseState, start: number): [number, Term] | null {
       },
     };
     const { rows, semicolonTokens } = term.arrayLiteral!;
+    state.syncStack.push([
+      state.separators.arrayColumn,
+      state.separators.arrayRow,
+      TokenType.R_BRACKET,
+    ]);
     let [endIndex, initialExpressionList] = parseExpressionList(
       state,
-      start + 1
+      start + 1,
+      state.separators.arrayColumn
     );
     rows.push(initialExpressionList);
     while (endIndex < state.tokens.length) {
@@ -266,15 +619,17 @@ function parseTerm(state: ParseState, start: number): [number, Term] | null {
         endIndex++;
         break;
       }
-      if (token.type !== TokenType.SEMICOLON) break;
+      if (token.type !== state.separators.arrayRow) break;
       semicolonTokens.push(token);
       const [newEndIndex, expressionList] = parseExpressionList(
         state,
-        endIndex + 1
+        endIndex + 1,
+        state.separators.arrayColumn
       );
       rows.push(expressionList);
       endIndex = newEndIndex;
     }
+    state.syncStack.pop();
     if (
       rows.length === 1 &&
       semicolonTokens.length === 0 &&
@@ -291,13 +646,20 @@ function parseTerm(state: ParseState, start: number): [number, Term] | null {
 
   // Function call.
   // functionCall :=
-  //   TokenType.IDENTIFIER TokenType.L_PAREN expressionList TokenType.R_PAREN
+  //   TokenType.IDENTIFIER
+  //   TokenType.L_PAREN expressionList(argumentSeparator) TokenType.R_PAREN
   if (
     startToken.type === TokenType.IDENTIFIER &&
     start < state.tokens.length - 1 &&
     state.tokens[start + 1].type === TokenType.L_PAREN
   ) {
-    let [endIndex, expressionList] = parseExpressionList(state, start + 2);
+    state.syncStack.push([state.separators.argument, TokenType.R_PAREN]);
+    let [endIndex, expressionList] = parseExpressionList(
+      state,
+      start + 2,
+      state.separators.argument
+    );
+    state.syncStack.pop();
     const term: Term = {
       type: TermType.CALL,
       call: {
@@ -323,9 +685,11 @@ function parseTerm(state: ParseState, start: number): [number, Term] | null {
 
   // Parenthesized expression.
   if (startToken.type === TokenType.L_PAREN) {
+    state.syncStack.push([TokenType.R_PAREN]);
     const result = parseExpression(state, start + 1);
     if (result !== null) {
-      let [endIndex, expression] = result;
+      let [endIndex, expression] = recoverAfterExpression(state, ...result);
+      state.syncStack.pop();
       const term: Term = {
         type: TermType.PARENTHESIZED,
         parenthesized: { leftParenToken: startToken, expression },
@@ -341,6 +705,7 @@ function parseTerm(state: ParseState, start: number): [number, Term] | null {
       }
       return [endIndex, term];
     }
+    state.syncStack.pop();
   }
 
   // Literal.
@@ -350,7 +715,9 @@ function parseTerm(state: ParseState, start: number): [number, Term] | null {
       TokenType.NUMBER,
       TokenType.STRING,
       TokenType.RANGE,
+      TokenType.STRUCTURED_REFERENCE,
       TokenType.LITERAL,
+      TokenType.ERROR_LITERAL,
       // Treat error token as a valid literal, since it is either an unknown
       // identifier or unclosed string.
       TokenType.ERROR,
@@ -359,43 +726,25 @@ function parseTerm(state: ParseState, start: number): [number, Term] | null {
     return [start + 1, { type: TermType.LITERAL, literal: startToken }];
   }
 
-  // Unary operator.
-  if (
-    UNARY_OPERATORS.includes(startToken.type) &&
-    start < state.tokens.length - 1
-  ) {
-    // Get the operand term.
-    const operandTerm = parseTerm(state, start + 1);
-    if (operandTerm !== null) {
-      const [endIndex, operand] = operandTerm;
-      // Only allow certain terms to be the operand.
-      if (
-        (operand.type === TermType.LITERAL &&
-          [
-            TokenType.LITERAL,
-            TokenType.IDENTIFIER,
-            TokenType.NUMBER,
-            TokenType.RANGE,
-          ].includes(operand.literal!.type)) ||
-        [TermType.CALL, TermType.PARENTHESIZED].includes(operand.type)
-      ) {
-        return [
-          endIndex,
-          {
-            type: TermType.UNARY_OP,
-            unaryOp: { operatorToken: startToken, operand },
-          },
-        ];
-      }
-      // Found a valid term, but this operator token is not valid for the term
-      // type.
-      setErrorTypeIfNull(startToken, TokenErrorType.INVALID_UNARY_OPERAND);
-    }
-  }
-
   return null;
 }
 
+/** Returns whether the token is only valid in Excel formulas. */
+function isExcelOnlyToken(token: Token): boolean {
+  switch (token.type) {
+    case TokenType.AT:
+    case TokenType.SPILL:
+    case TokenType.STRUCTURED_REFERENCE:
+      return true;
+    case TokenType.IDENTIFIER:
+      return EXCEL_FUNCTION_PREFIXES.some((prefix) =>
+        token.content.toLowerCase().startsWith(prefix)
+      );
+    default:
+      return false;
+  }
+}
+
 function setErrorTypeIfNull(token: Token, errorType: TokenErrorType) {
   if (token.errorType === undefined) {
     token.errorType = errorType;
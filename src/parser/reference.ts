@@ -0,0 +1,263 @@
+/** A cell address on a grid. */
+export interface CellAddress {
+  /** Row number (0-indexed). */
+  row: number;
+  /** Column number (0-indexed). */
+  col: number;
+}
+
+/** The notations for range references. */
+export enum ReferenceNotation {
+  A1 = "A1",
+  R1C1 = "R1C1",
+}
+
+/**
+ * One end of a range reference.
+ *
+ * Relative parts are resolved against an anchor cell, so `row` and `col` are
+ * always absolute positions on the grid.
+ */
+export interface ReferenceEndpoint {
+  /** Row number (0-indexed), or null for a whole column. */
+  row: number | null;
+  /** Whether the row is absolute (`$1` or `R1`). */
+  rowAbsolute: boolean;
+  /** Column number (0-indexed), or null for a whole row. */
+  col: number | null;
+  /** Whether the column is absolute (`$A` or `C1`). */
+  colAbsolute: boolean;
+}
+
+/** A parsed range reference, such as `Sheet1!$A1:B2`. */
+export interface RangeReference {
+  /** The sheet name as written (including any quotes), if there is one. */
+  sheetName: string | null;
+  /** The start of the range. */
+  start: ReferenceEndpoint;
+  /** The end of the range, or null for a single cell. */
+  end: ReferenceEndpoint | null;
+  /** The notation that the reference was written in. */
+  notation: ReferenceNotation;
+}
+
+const A1_ENDPOINT_RE = /^(\$?)([a-z]+)?(\$?)(\d+)?$/i;
+const R1C1_ENDPOINT_RE =
+  /^(R(\d+|\[([+-]?\d+)\])?)?(C(\d+|\[([+-]?\d+)\])?)?$/i;
+
+/** Converts a column letter string (such as "AB") to its column number. */
+export function lettersToColumn(letters: string): number {
+  let col = 0;
+  for (const letter of letters.toUpperCase()) {
+    col = col * 26 + (letter.charCodeAt(0) - "A".charCodeAt(0) + 1);
+  }
+  return col - 1;
+}
+
+/** Converts a column number to its column letter string (such as "AB"). */
+export function columnToLetters(col: number): string {
+  const letters = [];
+  for (let n = col + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters.unshift(String.fromCharCode("A".charCodeAt(0) + ((n - 1) % 26)));
+  }
+  return letters.join("");
+}
+
+/** Parses a single A1 cell address, such as "B3". Returns null if invalid. */
+export function parseCellAddress(text: string): CellAddress | null {
+  const reference = parseRangeReference(text.trim(), { row: 0, col: 0 });
+  if (
+    reference === null ||
+    reference.notation !== ReferenceNotation.A1 ||
+    reference.sheetName !== null ||
+    reference.end !== null
+  ) {
+    return null;
+  }
+  return { row: reference.start.row!, col: reference.start.col! };
+}
+
+/** Converts a cell address to its A1 string, such as "B3". */
+export function cellAddressToString({ row, col }: CellAddress): string {
+  return columnToLetters(col) + (row + 1);
+}
+
+/**
+ * Splits the sheet name from a reference. The sheet name is returned as
+ * written, including any quotes.
+ */
+export function splitSheetName(content: string): [string | null, string] {
+  let index;
+  if (content.startsWith("'")) {
+    // Find the closing quote, skipping escaped quotes.
+    index = 1;
+    while (index < content.length) {
+      if (content[index] === "'") {
+        if (content[index + 1] !== "'") break;
+        index++;
+      }
+      index++;
+    }
+    index++;
+  } else {
+    index = content.indexOf("!");
+  }
+  if (index < 0 || content[index] !== "!") return [null, content];
+  return [content.slice(0, index), content.slice(index + 1)];
+}
+
+/** Removes the quotes around a sheet name, such as `'Q1 ''24'`. */
+export function unquoteSheetName(sheetName: string): string {
+  if (
+    sheetName.length >= 2 &&
+    sheetName.startsWith("'") &&
+    sheetName.endsWith("'")
+  ) {
+    return sheetName.slice(1, -1).replace(/''/g, "'");
+  }
+  return sheetName;
+}
+
+/**
+ * Parses the content of a range token, resolving relative R1C1 offsets
+ * against `anchor`.
+ *
+ * Returns null if the content is not a cell or range reference (for example,
+ * a named range).
+ */
+export function parseRangeReference(
+  content: string,
+  anchor: CellAddress
+): RangeReference | null {
+  const [sheetName, rest] = splitSheetName(content);
+  const parts = rest.split(":");
+  if (parts.length > 2) return null;
+  for (const notation of [ReferenceNotation.A1, ReferenceNotation.R1C1]) {
+    const endpoints = parts.map((part) =>
+      notation === ReferenceNotation.A1
+        ? parseA1Endpoint(part)
+        : parseR1C1Endpoint(part, anchor)
+    );
+    if (endpoints.some((endpoint) => endpoint === null)) continue;
+    const [start, end = null] = endpoints as ReferenceEndpoint[];
+    if (end === null) {
+      // A single cell must have both a row and a column.
+      if (start.row === null || start.col === null) continue;
+    } else if ((start.row === null) !== (end.row === null)) {
+      // Whole columns must be paired with whole columns.
+      if (start.col === null || end.col === null) continue;
+    }
+    return { sheetName, start, end, notation };
+  }
+  return null;
+}
+
+function parseA1Endpoint(text: string): ReferenceEndpoint | null {
+  const match = A1_ENDPOINT_RE.exec(text);
+  if (match === null) return null;
+  const [, colDollar, letters, rowDollar, digits] = match;
+  if (letters === undefined && digits === undefined) return null;
+  if (letters === undefined && colDollar) return null;
+  if (digits === undefined && rowDollar) return null;
+  const row = digits === undefined ? null : parseInt(digits) - 1;
+  if (row !== null && row < 0) return null;
+  return {
+    row,
+    rowAbsolute: !!rowDollar,
+    col: letters === undefined ? null : lettersToColumn(letters),
+    colAbsolute: !!colDollar,
+  };
+}
+
+function parseR1C1Endpoint(
+  text: string,
+  anchor: CellAddress
+): ReferenceEndpoint | null {
+  const match = R1C1_ENDPOINT_RE.exec(text);
+  if (match === null) return null;
+  const [, rowPart, rowValue, rowOffset, colPart, colValue, colOffset] = match;
+  if (rowPart === undefined && colPart === undefined) return null;
+
+  function resolve(
+    part: string | undefined,
+    value: string | undefined,
+    offset: string | undefined,
+    anchorValue: number
+  ): [number | null, boolean] {
+    if (part === undefined) return [null, false];
+    if (value === undefined) return [anchorValue, false];
+    if (offset !== undefined) return [anchorValue + parseInt(offset), false];
+    return [parseInt(value) - 1, true];
+  }
+
+  const [row, rowAbsolute] = resolve(rowPart, rowValue, rowOffset, anchor.row);
+  const [col, colAbsolute] = resolve(colPart, colValue, colOffset, anchor.col);
+  return { row, rowAbsolute, col, colAbsolute };
+}
+
+/**
+ * Converts a range reference to its string in the given notation. Relative
+ * R1C1 offsets are computed from `anchor`.
+ *
+ * Returns null if the reference is off the grid.
+ */
+export function stringifyRangeReference(
+  reference: RangeReference,
+  notation: ReferenceNotation,
+  anchor: CellAddress
+): string | null {
+  const endpoints = [reference.start];
+  if (reference.end !== null) {
+    endpoints.push(reference.end);
+  }
+  const parts = [];
+  for (const endpoint of endpoints) {
+    if (
+      (endpoint.row !== null && endpoint.row < 0) ||
+      (endpoint.col !== null && endpoint.col < 0)
+    ) {
+      return null;
+    }
+    parts.push(
+      notation === ReferenceNotation.A1
+        ? stringifyA1Endpoint(endpoint)
+        : stringifyR1C1Endpoint(endpoint, anchor)
+    );
+  }
+  const sheetPrefix =
+    reference.sheetName === null ? "" : reference.sheetName + "!";
+  return sheetPrefix + parts.join(":");
+}
+
+function stringifyA1Endpoint(endpoint: ReferenceEndpoint): string {
+  const parts = [];
+  if (endpoint.col !== null) {
+    parts.push(endpoint.colAbsolute ? "$" : "", columnToLetters(endpoint.col));
+  }
+  if (endpoint.row !== null) {
+    parts.push(endpoint.rowAbsolute ? "$" : "", endpoint.row + 1);
+  }
+  return parts.join("");
+}
+
+function stringifyR1C1Endpoint(
+  endpoint: ReferenceEndpoint,
+  anchor: CellAddress
+): string {
+  function stringifyPart(
+    prefix: string,
+    value: number | null,
+    absolute: boolean,
+    anchorValue: number
+  ): string {
+    if (value === null) return "";
+    if (absolute) return prefix + (value + 1);
+    const offset = value - anchorValue;
+    return offset === 0 ? prefix : `${prefix}[${offset}]`;
+  }
+
+  return (
+    stringifyPart("R", endpoint.row, endpoint.rowAbsolute, anchor.row) +
+    stringifyPart("C", endpoint.col, endpoint.colAbsolute, anchor.col)
+  );
+}
@@ -0,0 +1,143 @@
+import { replaceTokens } from "./convert";
+import { Locale } from "./locale";
+import { Binding, lookupBinding, Scope, ScopeAnalysis } from "./scope";
+import { parseTokens, Token, TokenType } from "./tokens";
+import { getFunctionSignature } from "../functions/catalog";
+import { cmpPositions, Position, sortByPositions } from "../utils/position";
+
+/** The result of renaming a binding. */
+export interface RenameResult {
+  /** The lines with every occurrence of the binding renamed. */
+  lines: string[];
+  /** Maps a position in the old lines to the same place in the new lines. */
+  mapPosition: (position: Position) => Position;
+}
+
+/**
+ * Returns the binding declared or referenced at the cursor position, or null
+ * if there is none. The cursor can be anywhere in the name or right after it.
+ */
+export function findBindingAt(
+  scopes: ScopeAnalysis,
+  position: Position
+): Binding | null {
+  for (const binding of scopes.bindings) {
+    for (const token of [binding.token, ...binding.references]) {
+      const afterToken = {
+        lineNum: token.endPosition.lineNum,
+        colNum: token.endPosition.colNum + 1,
+      };
+      if (
+        cmpPositions(token.startPosition, position) <= 0 &&
+        cmpPositions(position, afterToken) <= 0
+      ) {
+        return binding;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Checks whether a binding can be renamed to `newName`. Returns a message
+ * describing the problem, or null if the name is valid.
+ *
+ * The new name must be read as a name rather than as a cell reference, a
+ * literal or a built-in function, and must not change what any other name
+ * refers to.
+ */
+export function validateRename(
+  scopes: ScopeAnalysis,
+  binding: Binding,
+  newName: string,
+  locale: Locale = Locale.US
+): string | null {
+  const tokens = parseTokens([newName], locale);
+  if (tokens.length !== 1 || tokens[0].content !== newName) {
+    return `"${newName}" is not a valid name`;
+  }
+  switch (tokens[0].type) {
+    case TokenType.IDENTIFIER:
+      break;
+    case TokenType.RANGE:
+      return `"${newName}" would be read as a cell reference`;
+    case TokenType.LITERAL:
+    case TokenType.ERROR_LITERAL:
+      return `"${newName}" is a reserved literal`;
+    default:
+      return `"${newName}" is not a valid name`;
+  }
+  if (getFunctionSignature(newName) !== null) {
+    return `"${newName}" is the name of a built-in function`;
+  }
+
+  if (newName.toUpperCase() === binding.name.toUpperCase()) return null;
+  // The new name can't hide or be hidden by another binding, or capture a
+  // name that currently refers to something else.
+  const conflict = lookupBinding(binding.scope, newName);
+  if (conflict !== null) {
+    return `"${newName}" is already bound`;
+  }
+  const upperName = newName.toUpperCase();
+  const scopesInside = getScopesInside(binding.scope);
+  for (const other of scopes.bindings) {
+    if (
+      scopesInside.has(other.scope) &&
+      other.name.toUpperCase() === upperName
+    ) {
+      return `"${newName}" is already bound in a nested LET or LAMBDA`;
+    }
+  }
+  for (const { token, scope } of scopes.unresolved) {
+    if (scopesInside.has(scope) && token.content.toUpperCase() === upperName) {
+      return `"${newName}" is already used as a named range in this scope`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Renames a binding and every reference to it. Strings and other names with
+ * the same text are left unchanged.
+ */
+export function renameBinding(
+  lines: string[],
+  binding: Binding,
+  newName: string
+): RenameResult {
+  const tokens = [binding.token, ...binding.references].sort(
+    sortByPositions((token: Token) => token.startPosition)
+  );
+  const replacements = new Map(tokens.map((token) => [token, newName]));
+
+  function mapPosition(position: Position): Position {
+    let colNum = position.colNum;
+    for (const token of tokens) {
+      if (token.startPosition.lineNum !== position.lineNum) continue;
+      const start = token.startPosition.colNum;
+      const end = token.endPosition.colNum + 1;
+      if (end <= position.colNum) {
+        // The token is before the position.
+        colNum += newName.length - (end - start);
+      } else if (start < position.colNum) {
+        // The position is inside the token, so keep its offset in the name.
+        colNum += Math.min(position.colNum - start, newName.length);
+        colNum -= position.colNum - start;
+      }
+    }
+    return { lineNum: position.lineNum, colNum };
+  }
+
+  return { lines: replaceTokens(lines, replacements), mapPosition };
+}
+
+/** Returns the scope and all of the scopes nested in it. */
+function getScopesInside(scope: Scope): Set<Scope> {
+  const scopes = new Set([scope]);
+  for (const child of scope.children) {
+    for (const inner of getScopesInside(child)) {
+      scopes.add(inner);
+    }
+  }
+  return scopes;
+}
@@ -0,0 +1,271 @@
+import { getFunctionSignature } from "../functions/catalog";
+import {
+  Expression,
+  ExpressionList,
+  ExpressionType,
+  ParseResult,
+  Term,
+  TermType,
+} from "./parse";
+import { Token, TokenType } from "./tokens";
+
+/** The kinds of bindings. */
+export enum BindingKind {
+  LET_VARIABLE = "LET_VARIABLE",
+  LAMBDA_PARAMETER = "LAMBDA_PARAMETER",
+}
+
+/** A name bound by `LET` or `LAMBDA`. */
+export interface Binding {
+  /** The name, as written in the declaration. */
+  name: string;
+  /** The kind of binding. */
+  kind: BindingKind;
+  /** The token that declares the name. */
+  token: Token;
+  /** The scope that the binding belongs to. */
+  scope: Scope;
+  /** The tokens that refer to this binding, in order. */
+  references: Token[];
+  /** The binding with the same name that this one hides, if any. */
+  shadows: Binding | null;
+}
+
+/**
+ * A scope created by a `LET` or `LAMBDA` call. The root scope is the whole
+ * formula, and has no bindings.
+ */
+export interface Scope {
+  /** The call that creates the scope, or null for the root scope. */
+  call: Term | null;
+  /** The enclosing scope, or null for the root scope. */
+  parent: Scope | null;
+  /** The bindings in this scope, in order of declaration. */
+  bindings: Binding[];
+  /** The scopes nested in this scope. */
+  children: Scope[];
+}
+
+/** The result of a scope analysis. */
+export interface ScopeAnalysis {
+  /** The scope of the whole formula. */
+  root: Scope;
+  /** All bindings, in order of declaration. */
+  bindings: Binding[];
+  /** The binding that each reference token refers to. */
+  references: Map<Token, Binding>;
+  /** The identifiers that don't refer to any binding, and their scopes. */
+  unresolved: Array<{ token: Token; scope: Scope }>;
+}
+
+/**
+ * Builds the scope tree of a parsed formula, resolving each name to the `LET`
+ * variable or `LAMBDA` parameter it refers to.
+ *
+ * A `LET` variable is visible in the values after it and in the final
+ * expression. A `LAMBDA` parameter is visible in the body.
+ */
+export function analyzeScopes(parseResult: ParseResult): ScopeAnalysis {
+  const analysis: ScopeAnalysis = {
+    root: { call: null, parent: null, bindings: [], children: [] },
+    bindings: [],
+    references: new Map(),
+    unresolved: [],
+  };
+  if (parseResult.expression !== null) {
+    visitExpression(parseResult.expression, analysis.root, analysis);
+  }
+  return analysis;
+}
+
+/**
+ * Returns the binding that a name refers to in a scope, or null if there is
+ * none. Names are case-insensitive.
+ */
+export function lookupBinding(scope: Scope, name: string): Binding | null {
+  const upperName = name.toUpperCase();
+  for (let curr: Scope | null = scope; curr !== null; curr = curr.parent) {
+    // Later bindings hide earlier ones with the same name.
+    for (let i = curr.bindings.length - 1; i >= 0; i--) {
+      if (curr.bindings[i].name.toUpperCase() === upperName) {
+        return curr.bindings[i];
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Returns the name token if the expression can be a binding name: a single
+ * identifier, or a range that could be mistaken for one (such as `ab1`).
+ */
+export function getNameToken(expression: Expression | null): Token | null {
+  const literal = expression?.term?.literal;
+  if (literal === undefined) return null;
+  if (literal.type === TokenType.IDENTIFIER) return literal;
+  if (literal.type === TokenType.RANGE && !/[!:]/.test(literal.content)) {
+    return literal;
+  }
+  return null;
+}
+
+function visitExpression(
+  expression: Expression,
+  scope: Scope,
+  analysis: ScopeAnalysis
+) {
+  switch (expression.type) {
+    case ExpressionType.TERM:
+      visitTerm(expression.term!, scope, analysis);
+      break;
+    case ExpressionType.BINARY_OP:
+      visitExpression(expression.binaryOp!.left, scope, analysis);
+      visitExpression(expression.binaryOp!.right, scope, analysis);
+      break;
+    case ExpressionType.RECOVERED: {
+      const { expression: inner, rest } = expression.recovered!;
+      if (inner !== null) {
+        visitExpression(inner, scope, analysis);
+      }
+      if (rest !== null) {
+        visitExpression(rest, scope, analysis);
+      }
+      break;
+    }
+  }
+}
+
+function visitExpressionOrEmpty(
+  expression: Expression | null,
+  scope: Scope,
+  analysis: ScopeAnalysis
+) {
+  if (expression !== null) {
+    visitExpression(expression, scope, analysis);
+  }
+}
+
+function visitExpressionList(
+  list: ExpressionList,
+  scope: Scope,
+  analysis: ScopeAnalysis
+) {
+  for (const expression of list.expressions) {
+    visitExpressionOrEmpty(expression, scope, analysis);
+  }
+}
+
+function visitTerm(term: Term, scope: Scope, analysis: ScopeAnalysis) {
+  switch (term.type) {
+    case TermType.LITERAL:
+      visitName(term.literal!, scope, analysis);
+      break;
+    case TermType.UNARY_OP:
+      visitTerm(term.unaryOp!.operand, scope, analysis);
+      break;
+    case TermType.POSTFIX_OP:
+      visitTerm(term.postfixOp!.operand, scope, analysis);
+      break;
+    case TermType.RANGE_OP:
+      visitTerm(term.rangeOp!.left, scope, analysis);
+      visitTerm(term.rangeOp!.right, scope, analysis);
+      break;
+    case TermType.ARRAY_LITERAL:
+      for (const row of term.arrayLiteral!.rows) {
+        visitExpressionList(row, scope, analysis);
+      }
+      break;
+    case TermType.CALL:
+      visitCall(term, scope, analysis);
+      break;
+    case TermType.PARENTHESIZED:
+      visitExpression(term.parenthesized!.expression, scope, analysis);
+      break;
+  }
+}
+
+function visitName(token: Token, scope: Scope, analysis: ScopeAnalysis) {
+  if (![TokenType.IDENTIFIER, TokenType.RANGE].includes(token.type)) return;
+  const binding = lookupBinding(scope, token.content);
+  if (binding !== null) {
+    binding.references.push(token);
+    analysis.references.set(token, binding);
+  } else if (token.type === TokenType.IDENTIFIER) {
+    analysis.unresolved.push({ token, scope });
+  }
+}
+
+function visitCall(term: Term, scope: Scope, analysis: ScopeAnalysis) {
+  const { functionToken, args } = term.call!;
+  // Bound names can also be called, such as `LET(f, LAMBDA(...), f(1))`.
+  const binding = lookupBinding(scope, functionToken.content);
+  if (binding !== null) {
+    binding.references.push(functionToken);
+    analysis.references.set(functionToken, binding);
+    visitExpressionList(args, scope, analysis);
+    return;
+  }
+
+  const name = getFunctionSignature(functionToken.content)?.name;
+  const expressions = args.expressions;
+  if (name !== "LET" && name !== "LAMBDA") {
+    visitExpressionList(args, scope, analysis);
+    return;
+  }
+
+  const innerScope: Scope = {
+    call: term,
+    parent: scope,
+    bindings: [],
+    children: [],
+  };
+  scope.children.push(innerScope);
+  const lastIndex = expressions.length - 1;
+  if (name === "LET") {
+    // LET(name1, value1, name2, value2, ..., expression)
+    for (let i = 0; i < lastIndex; i += 2) {
+      // The value is evaluated before its name is bound.
+      if (i + 1 < lastIndex) {
+        visitExpressionOrEmpty(expressions[i + 1], innerScope, analysis);
+      }
+      declare(expressions[i], BindingKind.LET_VARIABLE, innerScope, analysis);
+    }
+  } else {
+    // LAMBDA(param1, param2, ..., expression)
+    for (let i = 0; i < lastIndex; i++) {
+      declare(
+        expressions[i],
+        BindingKind.LAMBDA_PARAMETER,
+        innerScope,
+        analysis
+      );
+    }
+  }
+  if (lastIndex >= 0) {
+    visitExpressionOrEmpty(expressions[lastIndex], innerScope, analysis);
+  }
+}
+
+function declare(
+  expression: Expression | null,
+  kind: BindingKind,
+  scope: Scope,
+  analysis: ScopeAnalysis
+) {
+  const token = getNameToken(expression);
+  if (token === null) {
+    // Not a valid name, but it might still contain references.
+    visitExpressionOrEmpty(expression, scope, analysis);
+    return;
+  }
+  const binding: Binding = {
+    name: token.content,
+    kind,
+    token,
+    scope,
+    references: [],
+    shadows: lookupBinding(scope, token.content),
+  };
+  scope.bindings.push(binding);
+  analysis.bindings.push(binding);
+}
@@ -0,0 +1,123 @@
+import { replaceTokens } from "./convert";
+import { Locale } from "./locale";
+import { splitSheetName, unquoteSheetName } from "./reference";
+import { parseTokens, Token, TokenType } from "./tokens";
+
+// Sheet names that can be written without quotes, such as `Sheet1`.
+const UNQUOTED_SHEET_NAME_RE = /^[a-z_][a-z0-9_]*$/i;
+// Sheet names that would be read as a cell reference or a literal, such as
+// `A1`, `R1C1`, or `TRUE`.
+const RESERVED_SHEET_NAME_RE = /^([a-z]{1,3}\d+|R\d*C?\d*|C\d*|TRUE|FALSE)$/i;
+
+/** The result of renaming a sheet. */
+export interface SheetRenameResult {
+  /** The lines with every reference to the sheet renamed. */
+  lines: string[];
+  /**
+   * The strings in `INDIRECT` calls that refer to the sheet. They are only
+   * renamed if requested, since they aren't checked to be references.
+   */
+  indirectTokens: Token[];
+}
+
+/** Returns whether a sheet name must be quoted in a reference. */
+export function sheetNameNeedsQuotes(sheetName: string): boolean {
+  return (
+    !UNQUOTED_SHEET_NAME_RE.test(sheetName) ||
+    RESERVED_SHEET_NAME_RE.test(sheetName)
+  );
+}
+
+/**
+ * Writes a sheet name for a reference, adding quotes (and escaping the quotes
+ * in it) only if they are needed.
+ */
+export function quoteSheetName(sheetName: string): string {
+  if (!sheetNameNeedsQuotes(sheetName)) return sheetName;
+  return `'${sheetName.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Renames the sheet named `oldName` in every reference to it. Sheet names are
+ * case-insensitive, and are quoted in the new references only if needed.
+ *
+ * If `renameIndirect` is true, references at the start of strings inside
+ * `INDIRECT` calls, such as `INDIRECT("Sheet1!A" & ROW())`, are renamed too.
+ */
+export function renameSheet(
+  lines: string[],
+  oldName: string,
+  newName: string,
+  renameIndirect: boolean,
+  locale: Locale = Locale.US
+): SheetRenameResult {
+  const upperName = oldName.toUpperCase();
+  const newSheetName = quoteSheetName(newName);
+  // Returns the reference with the sheet renamed, or null if it is not a
+  // reference to the sheet.
+  function renameReference(content: string): string | null {
+    const [sheetName, rest] = splitSheetName(content);
+    if (sheetName === null) return null;
+    if (unquoteSheetName(sheetName).toUpperCase() !== upperName) return null;
+    return `${newSheetName}!${rest}`;
+  }
+
+  const replacements = new Map<Token, string>();
+  const indirectTokens: Token[] = [];
+  // Whether each enclosing bracket is the arguments of an `INDIRECT` call.
+  const inIndirectStack: boolean[] = [];
+  let prevToken: Token | null = null;
+  for (const token of parseTokens(lines, locale)) {
+    switch (token.type) {
+      case TokenType.L_PAREN:
+        inIndirectStack.push(
+          prevToken?.type === TokenType.IDENTIFIER &&
+            prevToken.content.toUpperCase() === "INDIRECT"
+        );
+        break;
+      case TokenType.L_BRACKET:
+        inIndirectStack.push(false);
+        break;
+      case TokenType.R_PAREN:
+      case TokenType.R_BRACKET:
+        inIndirectStack.pop();
+        break;
+      case TokenType.RANGE: {
+        const newContent = renameReference(token.content);
+        if (newContent !== null) replacements.set(token, newContent);
+        break;
+      }
+      case TokenType.STRING: {
+        if (!inIndirectStack.includes(true)) break;
+        const text = token.content.slice(1, -1).replace(/""/g, '"');
+        const newText = renameReference(text);
+        if (newText === null) break;
+        indirectTokens.push(token);
+        if (renameIndirect) {
+          replacements.set(token, `"${newText.replace(/"/g, '""')}"`);
+        }
+        break;
+      }
+    }
+    prevToken = token;
+  }
+  return { lines: replaceTokens(lines, replacements), indirectTokens };
+}
+
+/** Removes the quotes from sheet names in references that don't need them. */
+export function removeUnneededSheetQuotes(
+  lines: string[],
+  locale: Locale = Locale.US
+): string[] {
+  const replacements = new Map<Token, string>();
+  for (const token of parseTokens(lines, locale)) {
+    if (token.type !== TokenType.RANGE) continue;
+    const [sheetName, rest] = splitSheetName(token.content);
+    if (sheetName === null || !sheetName.startsWith("'")) continue;
+    const unquoted = unquoteSheetName(sheetName);
+    if (!sheetNameNeedsQuotes(unquoted)) {
+      replacements.set(token, `${unquoted}!${rest}`);
+    }
+  }
+  return replaceTokens(lines, replacements);
+}
@@ -0,0 +1,210 @@
+import { replaceTokens } from "./convert";
+import { Locale } from "./locale";
+import {
+  CellAddress,
+  parseRangeReference,
+  RangeReference,
+  ReferenceEndpoint,
+  stringifyRangeReference,
+  unquoteSheetName,
+} from "./reference";
+import { parseTokens, Token, TokenType } from "./tokens";
+
+/** The number of rows and columns that a formula is moved by. */
+export interface CellOffset {
+  /** The number of rows to move down (negative to move up). */
+  rows: number;
+  /** The number of columns to move right (negative to move left). */
+  cols: number;
+}
+
+/** The kinds of structural edits to a sheet. */
+export enum GridEditType {
+  INSERT_ROWS = "INSERT_ROWS",
+  DELETE_ROWS = "DELETE_ROWS",
+  INSERT_COLUMNS = "INSERT_COLUMNS",
+  DELETE_COLUMNS = "DELETE_COLUMNS",
+}
+
+/** Rows or columns that are inserted into or deleted from a sheet. */
+export interface GridEdit {
+  type: GridEditType;
+  /**
+   * The unquoted name of the sheet that is edited, or null for the sheet that
+   * the formula is on.
+   */
+  sheetName: string | null;
+  /**
+   * The first row or column (0-indexed) that is deleted, or that the new rows
+   * or columns are inserted before.
+   */
+  index: number;
+  /** The number of rows or columns. */
+  count: number;
+}
+
+/**
+ * Rewrites the references in the given lines as if the formula was copied
+ * from the `anchor` cell and pasted `offset` away from it. Relative rows and
+ * columns move with the formula, while the parts marked with `$` (or written
+ * as absolute R1C1 references) stay the same.
+ *
+ * References that would be off the grid are replaced with `#REF!`.
+ */
+export function shiftReferences(
+  lines: string[],
+  offset: CellOffset,
+  anchor: CellAddress,
+  locale: Locale = Locale.US
+): string[] {
+  const newAnchor = {
+    row: anchor.row + offset.rows,
+    col: anchor.col + offset.cols,
+  };
+  return mapReferences(lines, anchor, newAnchor, locale, (reference) =>
+    mapEndpoints(reference, (endpoint) => ({
+      ...endpoint,
+      row:
+        endpoint.row === null || endpoint.rowAbsolute
+          ? endpoint.row
+          : endpoint.row + offset.rows,
+      col:
+        endpoint.col === null || endpoint.colAbsolute
+          ? endpoint.col
+          : endpoint.col + offset.cols,
+    }))
+  );
+}
+
+/**
+ * Rewrites the references in the given lines, which are in the `anchor` cell
+ * on the sheet named `formulaSheetName`, after rows or columns are inserted or
+ * deleted. Both relative and absolute references move, and ranges grow or
+ * shrink when the edit is inside them.
+ *
+ * References to cells that are deleted are replaced with `#REF!`.
+ */
+export function applyGridEdit(
+  lines: string[],
+  edit: GridEdit,
+  anchor: CellAddress,
+  formulaSheetName: string | null,
+  locale: Locale = Locale.US
+): string[] {
+  const isRowEdit =
+    edit.type === GridEditType.INSERT_ROWS ||
+    edit.type === GridEditType.DELETE_ROWS;
+  const isInsert =
+    edit.type === GridEditType.INSERT_ROWS ||
+    edit.type === GridEditType.INSERT_COLUMNS;
+  const editSheetName = normalizeSheetName(edit.sheetName, formulaSheetName);
+
+  // Returns the new position of a row or column, or null if it is deleted.
+  function shiftIndex(index: number): number | null {
+    if (index < edit.index) return index;
+    if (isInsert) return index + edit.count;
+    if (index >= edit.index + edit.count) return index - edit.count;
+    return null;
+  }
+
+  // Returns the new bounds of the rows or columns from `start` to `end`, or
+  // null if they are all deleted.
+  function shiftBounds(start: number, end: number): [number, number] | null {
+    const [low, high] = start <= end ? [start, end] : [end, start];
+    const newLow = shiftIndex(low) ?? edit.index;
+    const newHigh = shiftIndex(high) ?? edit.index - 1;
+    if (newLow > newHigh) return null;
+    return start <= end ? [newLow, newHigh] : [newHigh, newLow];
+  }
+
+  function shiftReference(reference: RangeReference): RangeReference | null {
+    const sheetName =
+      reference.sheetName === null
+        ? null
+        : unquoteSheetName(reference.sheetName);
+    if (normalizeSheetName(sheetName, formulaSheetName) !== editSheetName) {
+      return reference;
+    }
+    const part = isRowEdit ? "row" : "col";
+    const { start, end } = reference;
+    if (end === null) {
+      const index = shiftIndex(start[part]!);
+      if (index === null) return null;
+      return { ...reference, start: { ...start, [part]: index } };
+    }
+    // Whole rows aren't affected by column edits, and vice versa.
+    if (start[part] === null || end[part] === null) return reference;
+    const bounds = shiftBounds(start[part]!, end[part]!);
+    if (bounds === null) return null;
+    return {
+      ...reference,
+      start: { ...start, [part]: bounds[0] },
+      end: { ...end, [part]: bounds[1] },
+    };
+  }
+
+  // The formula moves too if it is on the edited sheet, which changes its
+  // relative R1C1 references.
+  let newAnchor = anchor;
+  if (normalizeSheetName(null, formulaSheetName) === editSheetName) {
+    const part = isRowEdit ? "row" : "col";
+    newAnchor = { ...anchor, [part]: shiftIndex(anchor[part]) ?? edit.index };
+  }
+  return mapReferences(lines, anchor, newAnchor, locale, shiftReference);
+}
+
+/**
+ * Replaces every cell and range reference with the result of `transform`,
+ * keeping its notation. Relative R1C1 references are read from `anchor` and
+ * written from `newAnchor`.
+ */
+function mapReferences(
+  lines: string[],
+  anchor: CellAddress,
+  newAnchor: CellAddress,
+  locale: Locale,
+  transform: (reference: RangeReference) => RangeReference | null
+): string[] {
+  const replacements = new Map<Token, string>();
+  for (const token of parseTokens(lines, locale)) {
+    if (token.type !== TokenType.RANGE) continue;
+    const reference = parseRangeReference(token.content, anchor);
+    if (reference === null) continue;
+    const newReference = transform(reference);
+    const newContent =
+      newReference === null
+        ? null
+        : stringifyRangeReference(newReference, reference.notation, newAnchor);
+    // Leave the references that don't change as they were written.
+    if (
+      newContent !==
+      stringifyRangeReference(reference, reference.notation, anchor)
+    ) {
+      replacements.set(token, newContent ?? "#REF!");
+    }
+  }
+  return replaceTokens(lines, replacements);
+}
+
+function mapEndpoints(
+  reference: RangeReference,
+  transform: (endpoint: ReferenceEndpoint) => ReferenceEndpoint
+): RangeReference {
+  return {
+    ...reference,
+    start: transform(reference.start),
+    end: reference.end === null ? null : transform(reference.end),
+  };
+}
+
+/**
+ * Returns a key for comparing sheet names, where null is the sheet that the
+ * formula is on. Sheet names are case-insensitive.
+ */
+function normalizeSheetName(
+  sheetName: string | null,
+  formulaSheetName: string | null
+): string | null {
+  if (sheetName === null) return formulaSheetName?.toUpperCase() ?? null;
+  return sheetName.toUpperCase();
+}
@@ -1,10 +1,16 @@
-import { Position, sortByPositions } from "../utils/position";
+import {
+  convertPositionToIndex,
+  Position,
+  sortByPositions,
+} from "../utils/position";
+import { Locale, LOCALE_SEPARATORS } from "./locale";
 
 /** The token types. */
 export enum TokenType {
   // Unary operators.
   PLUS = "plus",
   MINUS = "minus",
+  AT = "at",
   // Other operators.
   MULTIPLY = "multiply",
   DIVIDE = "divide",
@@ -16,10 +22,15 @@ export enum TokenType {
   GREATER = "greater",
   LESS_OR_EQUAL = "less_or_equal",
   GREATER_OR_EQUAL = "greater_or_equal",
+  COLON = "colon",
+  // Postfix operators.
+  PERCENT = "percent",
+  SPILL = "spill",
 
   // Punctuation.
   COMMA = "comma",
   SEMICOLON = "semicolon",
+  BACKSLASH = "backslash",
   L_PAREN = "left_paren",
   R_PAREN = "right_paren",
   L_BRACKET = "left_bracket",
@@ -27,10 +38,12 @@ export enum TokenType {
 
   // Literals.
   LITERAL = "literal",
+  ERROR_LITERAL = "error_literal",
   IDENTIFIER = "identifier",
   NUMBER = "number",
   STRING = "string",
   RANGE = "range",
+  STRUCTURED_REFERENCE = "structured_reference",
 
   ERROR = "parse_error",
 }
@@ -48,6 +61,9 @@ export enum TokenErrorType {
   UNCLOSED_PARENTHESES = "UNCLOSED_PARENTHESES",
   INVALID_UNARY_OPERAND = "INVALID_UNARY_OPERAND",
   UNEXPECTED_TOKEN = "UNEXPECTED_TOKEN",
+
+  // Dialect errors.
+  EXCEL_ONLY = "EXCEL_ONLY",
 }
 
 /** Converts a token error type to an error message. */
@@ -72,15 +88,18 @@ export function tokenErrorMessage(
       return "Invalid unary operand";
     case TokenErrorType.UNEXPECTED_TOKEN:
       return "Parse error: unexpected token";
+    case TokenErrorType.EXCEL_ONLY:
+      return "Not supported in Google Sheets (Excel only)";
   }
 }
 
 /** The unary operator tokens. */
-export const UNARY_OPERATORS = [TokenType.PLUS, TokenType.MINUS];
+export const UNARY_OPERATORS = [TokenType.PLUS, TokenType.MINUS, TokenType.AT];
 
 /** The binary operator tokens. */
 export const OPERATORS = [
-  ...UNARY_OPERATORS,
+  TokenType.PLUS,
+  TokenType.MINUS,
   TokenType.MULTIPLY,
   TokenType.DIVIDE,
   TokenType.XOR,
@@ -93,6 +112,9 @@ export const OPERATORS = [
   TokenType.GREATER_OR_EQUAL,
 ];
 
+/** The postfix operator tokens. */
+export const POSTFIX_OPERATORS = [TokenType.PERCENT, TokenType.SPILL];
+
 const OPERATORS_SINGLE = new Map([
   ["+", TokenType.PLUS],
   ["-", TokenType.MINUS],
@@ -103,6 +125,9 @@ const OPERATORS_SINGLE = new Map([
   ["=", TokenType.EQUAL],
   ["<", TokenType.LESS],
   [">", TokenType.GREATER],
+  ["%", TokenType.PERCENT],
+  [":", TokenType.COLON],
+  ["@", TokenType.AT],
 ]);
 const OPERATORS_DOUBLE = new Map([
   ["<>", TokenType.NOT_EQUAL],
@@ -112,14 +137,45 @@ const OPERATORS_DOUBLE = new Map([
 const PUNCTUATION = new Map([
   [",", TokenType.COMMA],
   [";", TokenType.SEMICOLON],
+  ["\\", TokenType.BACKSLASH],
   ["(", TokenType.L_PAREN],
   [")", TokenType.R_PAREN],
   ["{", TokenType.L_BRACKET],
   ["}", TokenType.R_BRACKET],
 ]);
-const LITERALS = new Set(["true", "false", "#n/a"]);
-const NUMBER_LITERAL_RE = /^-?(\d+(\.\d*)?|\.\d+)(e\d+)?$/i;
-const IDENTIFIER_LITERAL_RE = /^[a-z_][a-z0-9_]*$/i;
+const LITERALS = new Set(["true", "false"]);
+// The error values that can be written directly in a formula.
+const ERROR_LITERALS = [
+  "#N/A",
+  "#REF!",
+  "#DIV/0!",
+  "#VALUE!",
+  "#NAME?",
+  "#NUM!",
+  "#NULL!",
+  "#ERROR!",
+];
+const NUMBER_LITERAL_RES = (() => {
+  function makeRes(decimal: string) {
+    const d = "\\" + decimal;
+    const mantissaPattern = `(\\d+(${d}\\d*)?|${d}\\d+)`;
+    return {
+      // Signs are parsed as unary operators, not as part of the number.
+      number: new RegExp(`^${mantissaPattern}(e[+-]?\\d+)?$`, "i"),
+      // A number literal that is waiting for its exponent.
+      exponentPrefix: new RegExp(`^${mantissaPattern}e$`, "i"),
+    };
+  }
+
+  return {
+    [Locale.US]: makeRes(LOCALE_SEPARATORS[Locale.US].decimal),
+    [Locale.EU]: makeRes(LOCALE_SEPARATORS[Locale.EU].decimal),
+  };
+})();
+// Function names can have periods, such as `NORM.DIST` or `_xlfn.XLOOKUP`.
+const IDENTIFIER_LITERAL_RE = /^[a-z_][a-z0-9_.]*$/i;
+// The table name before a structured reference, which may be omitted.
+const STRUCTURED_REFERENCE_TABLE_RE = /^([a-z_][a-z0-9_.]*)?$/i;
 const RANGE_REF_RE = (() => {
   function joinPatterns(...patterns: string[]) {
     return "(" + patterns.join("|") + ")";
@@ -131,6 +187,15 @@ const RANGE_REF_RE = (() => {
   const cellRefPattern = cellColPattern + cellRowPattern;
   const openColPattern = cellColPattern + `(${cellRowPattern})?`;
   const openRowPattern = `(${cellColPattern})?` + cellRowPattern;
+  // R1C1 notation, such as `R1C1` or `R[-1]C`.
+  const r1c1RowPattern = /R(\d+|\[[+-]?\d+\])?/.source;
+  const r1c1ColPattern = /C(\d+|\[[+-]?\d+\])?/.source;
+  const r1c1CellPattern = r1c1RowPattern + r1c1ColPattern;
+  const r1c1RangePattern = joinPatterns(
+    r1c1CellPattern + `(:${r1c1CellPattern})?`,
+    r1c1RowPattern + ":" + r1c1RowPattern,
+    r1c1ColPattern + ":" + r1c1ColPattern
+  );
   const rangeRefRe = new RegExp(
     "^" +
       `(${sheetNamePattern})?` +
@@ -138,11 +203,18 @@ const RANGE_REF_RE = (() => {
         // Single cell.
         cellRefPattern,
         openColPattern + ":" + openColPattern,
-        openRowPattern + ":" + openRowPattern
+        openRowPattern + ":" + openRowPattern,
+        r1c1RangePattern
       ) +
       "$",
     "i"
   );
+  // An R1C1 reference at the start of some text, which cannot be followed by
+  // more of an identifier.
+  const r1c1PrefixRe = new RegExp(
+    "^" + r1c1RangePattern + /(?![a-z0-9_.(\[])/.source,
+    "i"
+  );
   // Possible named range. https://support.google.com/docs/answer/63175?hl=en
   const namedRangeRe = new RegExp(
     "^" + sheetNamePattern + /[a-z_][a-z0-9_]{0,249}/.source + "$",
@@ -159,9 +231,22 @@ const RANGE_REF_RE = (() => {
       }
       return false;
     },
+
+    /**
+     * Returns the R1C1 reference with relative offsets at the start of the
+     * given text, or null if there is none. These must be matched before
+     * splitting on operators, since the offsets contain brackets and signs.
+     */
+    matchR1C1Prefix(text: string): string | null {
+      const match = r1c1PrefixRe.exec(text);
+      if (match === null || !match[0].includes("[")) return null;
+      return match[0];
+    },
   };
 })();
 
+const RANGE_END_RE = /^[a-z0-9_$]+/i;
+
 /** A token. */
 export interface Token {
   /** The type of the token. */
@@ -172,42 +257,65 @@ export interface Token {
   startPosition: Position;
   /** The end position of the token (inclusive). */
   endPosition: Position;
+  /**
+   * The whitespace before the token that is not the previous token's trailing
+   * trivia. This includes line breaks.
+   */
+  leadingTrivia: string;
+  /** The whitespace after the token on the same line. */
+  trailingTrivia: string;
   /** The error type, if `type` is `TokenType.ERROR`. */
   errorType?: TokenErrorType;
 }
 
-const SPACE = " ";
+// Any whitespace character, including tabs and non-breaking spaces.
+const WHITESPACE_RE = /\s/;
+const NEWLINE = "\n";
+const SAME_LINE_TRIVIA_RE = /^[^\n]*/;
 const SINGLE_QUOTE = "'";
 const DOUBLE_QUOTE = '"';
+const HASH = "#";
+const L_SQUARE_BRACKET = "[";
+const R_SQUARE_BRACKET = "]";
+const COLON = ":";
 
 /** Parses the given text into tokens. */
-export function parseTokens(lines: string[]): Token[] {
+export function parseTokens(
+  lines: string[],
+  locale: Locale = Locale.US
+): Token[] {
+  const numberLiteralRes = NUMBER_LITERAL_RES[locale];
+  const decimal = LOCALE_SEPARATORS[locale].decimal;
   const tokens: Token[] = [];
+  const buffer: string[] = [];
+  const state = {
+    // The position of the first character in `buffer`.
+    bufferStart: { lineNum: 0, colNum: 0 } as Position,
+    // In a double-quoted string.
+    inString: false,
+    // In a single-quoted string. These are not considered strings in Google
+    // Sheets, but they're used in sheet references, so we want to be able to
+    // capture it together.
+    inQuotes: false,
+  };
 
-  function pushBuffer(buffer: string[], lineNum: number, colNum: number) {
-    let content = buffer.join("");
+  function pushToBuffer(text: string, lineNum: number, colNum: number) {
+    if (buffer.length === 0) {
+      state.bufferStart = { lineNum, colNum };
+    }
+    buffer.push(text);
+  }
+
+  function pushBuffer(lineNum: number, colNum: number) {
+    const content = buffer.join("");
     clearArray(buffer);
     if (content.length === 0) return;
-
-    // Special case: #n/a.
-    if (tokens.length >= 2 && content.toLowerCase() === "a") {
-      const prev1 = tokens[tokens.length - 2];
-      const prev2 = tokens[tokens.length - 1];
-      if (
-        prev1.startPosition.lineNum === lineNum &&
-        prev1.startPosition.colNum === colNum - 4 &&
-        prev1.content.toLowerCase() === "#n" &&
-        prev2.content === "/"
-      ) {
-        tokens.splice(-2, 2);
-        content = prev1.content + prev2.content + content;
-      }
-    }
+    const endPosition = { lineNum, colNum: colNum - 1 };
 
     let tokenType;
     if (LITERALS.has(content.toLowerCase())) {
       tokenType = TokenType.LITERAL;
-    } else if (NUMBER_LITERAL_RE.test(content)) {
+    } else if (numberLiteralRes.number.test(content)) {
       tokenType = TokenType.NUMBER;
     } else if (RANGE_REF_RE.test(content)) {
       tokenType = TokenType.RANGE;
@@ -220,26 +328,23 @@ export function parseTokens(lines: string[]): Token[] {
         createErrorToken(
           TokenErrorType.UNKNOWN_TOKEN,
           content,
-          lineNum,
-          colNum - 1
+          state.bufferStart,
+          endPosition
         )
       );
       return;
     }
-    tokens.push(createToken(tokenType, content, lineNum, colNum - 1));
+    tokens.push(
+      createToken(tokenType, content, state.bufferStart, endPosition)
+    );
   }
 
   for (let lineNum = 0; lineNum < lines.length; lineNum++) {
     const line = lines[lineNum];
-    const buffer = [];
-    const state = {
-      // In a double-quoted string.
-      inString: false,
-      // In a single-quoted string. These are not considered strings in Google
-      // Sheets, but they're used in sheet references, so we want to be able to
-      // capture it together.
-      inQuotes: false,
-    };
+    if (lineNum > 0 && (state.inString || state.inQuotes)) {
+      // Strings and quotes can span multiple lines.
+      buffer.push(NEWLINE);
+    }
     for (let colNum = 0; colNum < line.length; colNum++) {
       const c = line[colNum];
       const cc = colNum < line.length - 1 ? line.slice(colNum, colNum + 2) : "";
@@ -256,7 +361,10 @@ export function parseTokens(lines: string[]): Token[] {
           state.inString = false;
           buffer.push(c);
           tokens.push(
-            createToken(TokenType.STRING, buffer.join(""), lineNum, colNum)
+            createToken(TokenType.STRING, buffer.join(""), state.bufferStart, {
+              lineNum,
+              colNum,
+            })
           );
           clearArray(buffer);
           continue;
@@ -279,12 +387,118 @@ export function parseTokens(lines: string[]): Token[] {
         continue;
       }
 
-      if (c === SPACE) {
-        pushBuffer(buffer, lineNum, colNum);
+      if (WHITESPACE_RE.test(c)) {
+        pushBuffer(lineNum, colNum);
         // Ignore whitespace.
         continue;
       }
 
+      if (
+        "rc".includes(c.toLowerCase()) &&
+        (buffer.length === 0 || buffer.join("").endsWith("!"))
+      ) {
+        const r1c1Ref = RANGE_REF_RE.matchR1C1Prefix(line.slice(colNum));
+        if (r1c1Ref !== null) {
+          pushToBuffer(r1c1Ref, lineNum, colNum);
+          colNum += r1c1Ref.length - 1;
+          continue;
+        }
+      }
+
+      if (c === HASH && buffer.length === 0) {
+        // Error literals contain characters that are otherwise operators, so
+        // they must be matched before splitting on operators.
+        const rest = line.slice(colNum).toUpperCase();
+        const errorLiteral = ERROR_LITERALS.find((literal) =>
+          rest.startsWith(literal)
+        );
+        if (errorLiteral !== undefined) {
+          tokens.push(
+            createToken(
+              TokenType.ERROR_LITERAL,
+              line.slice(colNum, colNum + errorLiteral.length),
+              { lineNum, colNum },
+              { lineNum, colNum: colNum + errorLiteral.length - 1 }
+            )
+          );
+          colNum += errorLiteral.length - 1;
+          continue;
+        }
+      }
+
+      if (c === HASH && buffer.length > 0) {
+        // Spilled range reference, such as `A1#`.
+        pushBuffer(lineNum, colNum);
+        tokens.push(
+          createToken(
+            TokenType.SPILL,
+            c,
+            { lineNum, colNum },
+            { lineNum, colNum }
+          )
+        );
+        continue;
+      }
+
+      if (
+        c === L_SQUARE_BRACKET &&
+        STRUCTURED_REFERENCE_TABLE_RE.test(buffer.join(""))
+      ) {
+        // Structured reference, such as `Table1[[#This Row],[Amount]]`.
+        const length = matchSquareBrackets(line.slice(colNum));
+        if (length !== null) {
+          pushToBuffer(line.slice(colNum, colNum + length), lineNum, colNum);
+          colNum += length - 1;
+          tokens.push(
+            createToken(
+              TokenType.STRUCTURED_REFERENCE,
+              buffer.join(""),
+              state.bufferStart,
+              { lineNum, colNum }
+            )
+          );
+          clearArray(buffer);
+          continue;
+        }
+      }
+
+      if (
+        (c === "+" || c === "-") &&
+        /\d/.test(line[colNum + 1] ?? "") &&
+        numberLiteralRes.exponentPrefix.test(buffer.join(""))
+      ) {
+        // The sign of an exponent is part of the number, not an operator.
+        buffer.push(c);
+        continue;
+      }
+
+      if (
+        c === decimal &&
+        /\d/.test(line[colNum + 1] ?? "") &&
+        /^\d*$/.test(buffer.join(""))
+      ) {
+        // The decimal point may otherwise be punctuation, such as a comma.
+        pushToBuffer(c, lineNum, colNum);
+        continue;
+      }
+
+      if (c === COLON && buffer.length > 0) {
+        // Keep simple ranges such as `A1:B2` together as a single token. The end
+        // of the range cannot be a function name or another sheet reference.
+        const [rangeEnd] = RANGE_END_RE.exec(line.slice(colNum + 1)) ?? [""];
+        const afterRangeEnd = line.slice(colNum + 1 + rangeEnd.length);
+        if (
+          rangeEnd.length > 0 &&
+          !/^\s*\(/.test(afterRangeEnd) &&
+          !afterRangeEnd.startsWith("!") &&
+          RANGE_REF_RE.test(buffer.join("") + c + rangeEnd)
+        ) {
+          buffer.push(c, rangeEnd);
+          colNum += rangeEnd.length;
+          continue;
+        }
+      }
+
       let matched = false;
       for (const [test, map] of [
         // Check length 2 operators before length 1 operators.
@@ -295,66 +509,155 @@ export function parseTokens(lines: string[]): Token[] {
         const tokenType = map.get(test);
         if (!tokenType) continue;
         matched = true;
-        pushBuffer(buffer, lineNum, colNum);
+        pushBuffer(lineNum, colNum);
+        tokens.push(
+          createToken(
+            tokenType,
+            test,
+            { lineNum, colNum },
+            { lineNum, colNum: colNum + test.length - 1 }
+          )
+        );
         colNum += test.length - 1;
-        tokens.push(createToken(tokenType, test, lineNum, colNum));
         break;
       }
       if (matched) continue;
 
       if (c === DOUBLE_QUOTE) {
-        pushBuffer(buffer, lineNum, colNum);
+        pushBuffer(lineNum, colNum);
         // Start string.
         state.inString = true;
       } else if (c === SINGLE_QUOTE) {
-        pushBuffer(buffer, lineNum, colNum);
+        pushBuffer(lineNum, colNum);
         // Start quote.
         state.inQuotes = true;
       }
-      buffer.push(c);
+      pushToBuffer(c, lineNum, colNum);
     }
-    if (state.inString || state.inQuotes) {
-      tokens.push(
-        createErrorToken(
-          state.inString
-            ? TokenErrorType.UNCLOSED_STRING
-            : TokenErrorType.UNCLOSED_QUOTES,
-          buffer.join(""),
-          lineNum,
-          line.length - 1
-        )
-      );
-      continue;
+    if (!state.inString && !state.inQuotes) {
+      pushBuffer(lineNum, line.length);
     }
-    pushBuffer(buffer, lineNum, line.length);
+  }
+  if (state.inString || state.inQuotes) {
+    const lineNum = lines.length - 1;
+    tokens.push(
+      createErrorToken(
+        state.inString
+          ? TokenErrorType.UNCLOSED_STRING
+          : TokenErrorType.UNCLOSED_QUOTES,
+        buffer.join(""),
+        state.bufferStart,
+        // If the last line is empty, the token ends with a newline.
+        { lineNum, colNum: Math.max(0, lines[lineNum].length - 1) }
+      )
+    );
   }
 
   // Sort the values just in case.
   tokens.sort(sortByPositions((token) => token.startPosition));
+  attachTrivia(lines, tokens);
   return tokens;
 }
 
+/**
+ * Sets the leading and trailing trivia of each token from the whitespace
+ * between them.
+ */
+function attachTrivia(lines: string[], tokens: Token[]) {
+  const text = lines.join(NEWLINE);
+  let prevToken: Token | null = null;
+  let prevEndIndex = 0;
+  for (const token of tokens) {
+    const startIndex = convertPositionToIndex(lines, token.startPosition);
+    let gap = text.slice(prevEndIndex, startIndex);
+    if (prevToken !== null) {
+      const [trailingTrivia] = SAME_LINE_TRIVIA_RE.exec(gap)!;
+      prevToken.trailingTrivia = trailingTrivia;
+      gap = gap.slice(trailingTrivia.length);
+    }
+    token.leadingTrivia = gap;
+    prevToken = token;
+    prevEndIndex = convertPositionToIndex(lines, token.endPosition) + 1;
+  }
+  if (prevToken !== null) {
+    const rest = text.slice(prevEndIndex);
+    [prevToken.trailingTrivia] = SAME_LINE_TRIVIA_RE.exec(rest)!;
+  }
+}
+
+/**
+ * Returns the whitespace at the end of the lines that is not the trailing
+ * trivia of any token.
+ */
+export function getEndTrivia(lines: string[], tokens: Token[]): string {
+  const text = lines.join(NEWLINE);
+  if (tokens.length === 0) return text;
+  const lastToken = tokens[tokens.length - 1];
+  const endIndex = convertPositionToIndex(lines, lastToken.endPosition) + 1;
+  return text.slice(endIndex + lastToken.trailingTrivia.length);
+}
+
+/**
+ * Converts the given tokens back into lines. This is the inverse of
+ * `parseTokens`.
+ */
+export function printTokens(tokens: Token[], endTrivia: string): string[] {
+  return tokens
+    .map((token) => token.leadingTrivia + token.content + token.trailingTrivia)
+    .concat(endTrivia)
+    .join("")
+    .split(NEWLINE);
+}
+
+/**
+ * Returns the length of the square-bracketed text at the start of `text`,
+ * including nested brackets, or null if the brackets are not closed. A single
+ * quote escapes the next character.
+ */
+function matchSquareBrackets(text: string): number | null {
+  let depth = 0;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (c === SINGLE_QUOTE) {
+      i++;
+    } else if (c === L_SQUARE_BRACKET) {
+      depth++;
+    } else if (c === R_SQUARE_BRACKET) {
+      depth--;
+      if (depth === 0) return i + 1;
+    }
+  }
+  return null;
+}
+
 function createToken(
   type: TokenType,
   content: string,
-  lineNum: number,
-  endCol: number
+  startPosition: Position,
+  endPosition: Position
 ): Token {
   return {
     type,
     content,
-    startPosition: { lineNum, colNum: endCol - content.length + 1 },
-    endPosition: { lineNum, colNum: endCol },
+    startPosition,
+    endPosition,
+    leadingTrivia: "",
+    trailingTrivia: "",
   };
 }
 
 function createErrorToken(
   errorType: TokenErrorType,
   content: string,
-  lineNum: number,
-  endCol: number
+  startPosition: Position,
+  endPosition: Position
 ): Token {
-  const error = createToken(TokenType.ERROR, content, lineNum, endCol);
+  const error = createToken(
+    TokenType.ERROR,
+    content,
+    startPosition,
+    endPosition
+  );
   error.errorType = errorType;
   return error;
 }